@@ -1,10 +1,87 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
-import { Upload, Wand2, Scan } from "lucide-react";
+import { Upload, Wand2, Scan, Plus, Trash2, ArrowUp, ArrowDown, Download, FileText } from "lucide-react";
+import { createZip } from "@/lib/zip";
+import { Point, polygonArea, measurePolygon, analyzePolygon, isInside } from "@/lib/geometry";
+import { ramp } from "@/lib/fuzzy";
+import {
+    estimatePerspective,
+    formatHomography,
+    perspectiveScore,
+    ResamplingMethod,
+    RESAMPLING_METHOD_LABELS,
+    warpToSquare,
+} from "@/lib/perspective";
+import { GrayscaleMode, GRAYSCALE_MODE_LABELS, toGrayscale } from "@/lib/grayscale";
+import { DenoiseFilter, DENOISE_FILTER_LABELS, denoise } from "@/lib/filters";
+import {
+    ThresholdMethod,
+    THRESHOLD_METHOD_LABELS,
+    DEFAULT_LOCAL_K,
+    isLocalThresholdMethod,
+    computeHistogram,
+    selectThreshold,
+    toBinary,
+    toAdaptiveBinary,
+} from "@/lib/threshold";
+import { clusterColors, buildClusterMasks, contrastColor } from "@/lib/color";
+import {
+    MorphologyOperation,
+    StructuringElementShape,
+    MorphologyStep,
+    MORPHOLOGY_OPERATION_LABELS,
+    STRUCTURING_ELEMENT_LABELS,
+    applyMorphology,
+    formatMorphologySteps,
+} from "@/lib/morphology";
+import { splitTouchingObjects } from "@/lib/watershed";
+import { sobelGradients, cannyEdges, houghLines, findSquaresFromLines } from "@/lib/edges";
+import { matchTemplate, templateConfidence, minTemplateScore } from "@/lib/template";
+import { findContours, buildHierarchy, getCenter } from "@/lib/contours";
+import { MIN_MATCH_SIMILARITY, ellipticFourierDescriptors, matchReferenceShapes } from "@/lib/fourier";
+import {
+    refineCorners,
+    CornerDetector,
+    CORNER_DETECTOR_LABELS,
+    cornerResponse,
+    detectCorners,
+    assignCorners,
+    selectObjectCorners,
+    cornerSquareScore,
+} from "@/lib/corners";
+import { ShapeClass, SHAPE_CLASSES, calculateFeatures, squarenessScore, classifyShape } from "@/lib/shapes";
+import {
+    DetectedObject,
+    isCroppable,
+    findSimilarObjects,
+    countShapeClasses,
+    formatClassCounts,
+    formatMatchCounts,
+    squareFromCorners,
+} from "@/lib/detection";
+import { drawConfidence, drawSquare } from "@/lib/drawing";
+
+/**
+ * Режим сегментації: порогова бінаризація яскравості, кластеризація кольорів,
+ * пошук квадратів за прямими, знайденими на карті країв, або пошук зразка (шаблону)
+ * нормованою взаємною кореляцією
+ */
+type SegmentationMode = "threshold" | "color" | "edges" | "template";
+
+/**
+ * Спосіб класифікації об'єктів: правила за геометричними ознаками
+ * або найближчий збіг з бібліотекою еталонних фігур за дескрипторами Фур'є
+ */
+type ClassificationMode = "rules" | "library";
 
 /**
  * Генерує тестове зображення з випадковими геометричними фігурами
@@ -71,14 +148,194 @@ export const ImageProcessor = () => {
     // Дозволяємо пусте значення для можливості повного видалення
     const [shapeCount, setShapeCount] = useState<number | "">(5);
 
+    const [detections, setDetections] = useState<DetectedObject[]>([]);
+
+    // Параметри сегментації
+    const [segmentationMode, setSegmentationMode] = useState<SegmentationMode>("threshold");
+    const [clusterCount, setClusterCount] = useState<number | "">(4);
+
+    // Параметри пошуку за краями: пороги гістерезису Canny, найменша сторона квадрата
+    // та поріг голосів Хафа як частка цієї сторони
+    const [cannyLow, setCannyLow] = useState<number | "">(50);
+    const [cannyHigh, setCannyHigh] = useState<number | "">(150);
+    const [minSquareSide, setMinSquareSide] = useState<number | "">(20);
+    const [houghVoteRatio, setHoughVoteRatio] = useState<number | "">(0.75);
+
+    // Шаблон для пошуку кореляцією (завантажений або виділений на оригіналі) та параметри пошуку
+    const [template, setTemplate] = useState<{ dataUrl: string; imageData: ImageData } | null>(null);
+    const [templateSelection, setTemplateSelection] = useState<
+        { startX: number; startY: number; x: number; y: number; dragging: boolean } | null
+    >(null);
+    const [templateMinScale, setTemplateMinScale] = useState<number | "">(0.5);
+    const [templateMaxScale, setTemplateMaxScale] = useState<number | "">(2);
+    const [templateAngleStep, setTemplateAngleStep] = useState<number | "">(15);
+    const [templateThreshold, setTemplateThreshold] = useState<number | "">(0.8);
+
+    // Параметри фільтрації шуму
+    const [denoiseFilter, setDenoiseFilter] = useState<DenoiseFilter>("none");
+    const [spatialSigma, setSpatialSigma] = useState<number | "">(1.5);
+    const [medianSize, setMedianSize] = useState<number | "">(3);
+    const [rangeSigma, setRangeSigma] = useState<number | "">(30);
+
+    // Параметри бінаризації
+    const [grayscaleMode, setGrayscaleMode] = useState<GrayscaleMode>("average");
+    const [thresholdMethod, setThresholdMethod] = useState<ThresholdMethod>("fixed");
+    const [manualThreshold, setManualThreshold] = useState<number | "">(128);
+    const [windowSize, setWindowSize] = useState<number | "">(31);
+    const [localK, setLocalK] = useState<number | "">(DEFAULT_LOCAL_K.sauvola);
+
+    // Зберігати внутрішні пустоти, щоб розпізнавати контурні та вкладені фігури
+    const [keepHoles, setKeepHoles] = useState(false);
+
+    // Розділяти дотичні та перекриті фігури вододілом
+    const [splitTouching, setSplitTouching] = useState(false);
+
+    // Перевірка квадратів кутами детектора Харріса / Ші–Томасі та показ кутів на зображенні
+    const [cornerVerification, setCornerVerification] = useState(false);
+    const [showCorners, setShowCorners] = useState(false);
+    const [cornerDetector, setCornerDetector] = useState<CornerDetector>("harris");
+    const [cornerQuality, setCornerQuality] = useState<number | "">(0.05);
+
+    // Об'єкт, вибраний у таблиці для перегляду в інспекторі
+    const [selectedObjectId, setSelectedObjectId] = useState<number | null>(null);
+
+    const [classificationMode, setClassificationMode] = useState<ClassificationMode>("rules");
+
+    // Зразок для пошуку схожих фігур, мінімальна схожість збігу та
+    // оброблене зображення з підсвіченими збігами
+    const [queryObjectId, setQueryObjectId] = useState<number | null>(null);
+    const [similarityThreshold, setSimilarityThreshold] = useState(0.5);
+    const [highlightedImage, setHighlightedImage] = useState<string | null>(null);
+
+    // Мінімальна впевненість, з якою об'єкт визнається квадратом
+    const [acceptanceThreshold, setAcceptanceThreshold] = useState<number | "">(0.5);
+
+    // Параметри експорту фрагментів: сторона вихідного зображення та інтерполяція
+    const [cropSize, setCropSize] = useState<number | "">(256);
+    const [resampling, setResampling] = useState<ResamplingMethod>("bicubic");
+
+    // Вершини еталонного квадрата, за яким калібрується площина зображення
+    const [calibrationQuad, setCalibrationQuad] = useState<Point[] | null>(null);
+
+    // Ланцюжок морфологічних операцій між бінаризацією та пошуком контурів
+    const [morphologySteps, setMorphologySteps] = useState<MorphologyStep[]>([]);
+
+    const addMorphologyStep = () => {
+        setMorphologySteps(steps => [
+            ...steps,
+            { id: Date.now(), operation: "open", shape: "square", size: 3 },
+        ]);
+    };
+
+    const updateMorphologyStep = (id: number, changes: Partial<MorphologyStep>) => {
+        setMorphologySteps(steps => steps.map(step => (step.id === id ? { ...step, ...changes } : step)));
+    };
+
+    const removeMorphologyStep = (id: number) => {
+        setMorphologySteps(steps => steps.filter(step => step.id !== id));
+    };
+
+    const moveMorphologyStep = (index: number, offset: number) => {
+        setMorphologySteps(steps => {
+            const target = index + offset;
+            if (target < 0 || target >= steps.length) return steps;
+            const reordered = steps.slice();
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return reordered;
+        });
+    };
+
     const generateTestImageHandler = () => {
         const count = typeof shapeCount === "number" ? shapeCount : 5;
         const dataUrl = generateTestImage(count);
         setOriginalImage(dataUrl);
         setProcessedImage(null);
+        setDetections([]);
+        setCalibrationQuad(null);
+        setTemplateSelection(null);
         toast.success("Тестове зображення згенеровано");
     };
 
+    /**
+     * Запам'ятовує шаблон разом з його пікселями (для перетворення у відтінки сірого під час пошуку)
+     */
+    const loadTemplate = (dataUrl: string) => {
+        const img = new Image();
+        img.onload = () => {
+            if (img.width < 8 || img.height < 8) {
+                toast.error("Шаблон має бути не меншим за 8×8 пікселів");
+                return;
+            }
+            const canvas = document.createElement("canvas");
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext("2d")!;
+            ctx.drawImage(img, 0, 0);
+            setTemplate({ dataUrl, imageData: ctx.getImageData(0, 0, img.width, img.height) });
+            toast.success(`Шаблон ${img.width}×${img.height} пікселів готовий до пошуку`);
+        };
+        img.src = dataUrl;
+    };
+
+    const handleTemplateUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        if (!/image\//.test(file.type)) {
+            toast.error("Будь ласка, завантажте зображення шаблону");
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onload = (event) => loadTemplate(event.target?.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    /**
+     * Виділення шаблону на оригінальному зображенні: прямокутник від натискання до відпускання
+     * кнопки миші (у координатах контейнера зображення); після відпускання виділена область
+     * вирізається з оригіналу і стає шаблоном
+     */
+    const handleSelectionStart = (e: React.MouseEvent<HTMLImageElement>) => {
+        e.preventDefault();
+        const box = e.currentTarget.parentElement!.getBoundingClientRect();
+        const x = e.clientX - box.left;
+        const y = e.clientY - box.top;
+        setTemplateSelection({ startX: x, startY: y, x, y, dragging: true });
+    };
+
+    const handleSelectionMove = (e: React.MouseEvent<HTMLImageElement>) => {
+        if (!templateSelection?.dragging) return;
+        const box = e.currentTarget.parentElement!.getBoundingClientRect();
+        setTemplateSelection({ ...templateSelection, x: e.clientX - box.left, y: e.clientY - box.top });
+    };
+
+    const handleSelectionEnd = (e: React.MouseEvent<HTMLImageElement>) => {
+        if (!templateSelection?.dragging) return;
+        setTemplateSelection({ ...templateSelection, dragging: false });
+
+        const image = e.currentTarget;
+        const box = image.parentElement!.getBoundingClientRect();
+        const rect = image.getBoundingClientRect();
+        const toImage = (offset: number, start: number, size: number, natural: number) =>
+            Math.max(0, Math.min(natural, Math.round((offset - start) * natural / size)));
+
+        const left = toImage(box.left + Math.min(templateSelection.startX, templateSelection.x), rect.left, rect.width, image.naturalWidth);
+        const right = toImage(box.left + Math.max(templateSelection.startX, templateSelection.x), rect.left, rect.width, image.naturalWidth);
+        const top = toImage(box.top + Math.min(templateSelection.startY, templateSelection.y), rect.top, rect.height, image.naturalHeight);
+        const bottom = toImage(box.top + Math.max(templateSelection.startY, templateSelection.y), rect.top, rect.height, image.naturalHeight);
+        if (right - left < 8 || bottom - top < 8) {
+            setTemplateSelection(null);
+            return;
+        }
+
+        const canvas = document.createElement("canvas");
+        canvas.width = right - left;
+        canvas.height = bottom - top;
+        canvas.getContext("2d")!.drawImage(image, left, top, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+        loadTemplate(canvas.toDataURL());
+    };
+
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
@@ -93,6 +350,9 @@ export const ImageProcessor = () => {
             const url = URL.createObjectURL(file);
             setOriginalImage(url);
             setProcessedImage(null);
+            setDetections([]);
+            setCalibrationQuad(null);
+            setTemplateSelection(null);
             toast.success("BMP зображення завантажено");
             return;
         }
@@ -101,6 +361,9 @@ export const ImageProcessor = () => {
         reader.onload = (event) => {
             setOriginalImage(event.target?.result as string);
             setProcessedImage(null);
+            setDetections([]);
+            setCalibrationQuad(null);
+            setTemplateSelection(null);
             toast.success("Зображення завантажено");
         };
         reader.readAsDataURL(file);
@@ -109,8 +372,9 @@ export const ImageProcessor = () => {
     /**
      * Основна функція обробки зображення
      * Виконує: бінаризацію → пошук контурів → розпізнавання квадратів → маркування
+     * @param reference - вершини еталонного квадрата для калібрування площини
      */
-    const processImage = () => {
+    const processImage = (reference: Point[] | null = calibrationQuad) => {
         if (!originalImage) {
             toast.error("Спочатку завантажте або згенеруйте зображення");
             return;
@@ -125,428 +389,597 @@ export const ImageProcessor = () => {
 
             ctx.drawImage(img, 0, 0);
             const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            const acceptance = typeof acceptanceThreshold === "number" ? acceptanceThreshold : 0.5;
 
             // Перетворення в відтінки сірого
-            const grayData = toGrayscale(imageData);
-
-            // Бінаризація з автоматичною інверсією
-            const binaryData = toBinary(grayData, 128, canvas.width, canvas.height);
-
-            // Відображення бінарного зображення
-            const out = ctx.createImageData(canvas.width, canvas.height);
-            for (let i = 0; i < binaryData.length; i++) {
-                const v = binaryData[i];
-                const o = i * 4;
-                out.data[o] = v;
-                out.data[o + 1] = v;
-                out.data[o + 2] = v;
-                out.data[o + 3] = 255;
+            const rawGrayData = toGrayscale(imageData, grayscaleMode);
+
+            // Придушення шуму перед бінаризацією
+            const sigma = typeof spatialSigma === "number" && spatialSigma > 0 ? spatialSigma : 1.5;
+            const median = typeof medianSize === "number" ? medianSize : 3;
+            const range = typeof rangeSigma === "number" && rangeSigma > 0 ? rangeSigma : 30;
+            const grayData = denoise(rawGrayData, canvas.width, canvas.height, denoiseFilter, sigma, median, range);
+            const medianWindow = Math.floor(median / 2) * 2 + 1;
+            const denoiseInfo = {
+                none: "",
+                gaussian: `; ${DENOISE_FILTER_LABELS.gaussian}, σ = ${sigma}`,
+                median: `; ${DENOISE_FILTER_LABELS.median} ${medianWindow}×${medianWindow}`,
+                bilateral: `; ${DENOISE_FILTER_LABELS.bilateral}, σs = ${sigma}, σr = ${range}`,
+            }[denoiseFilter];
+
+            // Пошук шаблону нормованою взаємною кореляцією в діапазоні масштабів і кутів
+            if (segmentationMode === "template") {
+                if (!template) {
+                    toast.error("Спочатку завантажте шаблон або виділіть його на оригінальному зображенні");
+                    return;
+                }
+
+                const minScale = typeof templateMinScale === "number" ? templateMinScale : 0.5;
+                const maxScale = Math.max(minScale, typeof templateMaxScale === "number" ? templateMaxScale : 2);
+                const angleStep = typeof templateAngleStep === "number" ? templateAngleStep : 15;
+                const threshold = typeof templateThreshold === "number" ? templateThreshold : 0.8;
+                const { width: templateWidth, height: templateHeight } = template.imageData;
+
+                // Шаблон проходить ту саму фільтрацію шуму, що й зображення
+                const templateGray = denoise(
+                    toGrayscale(template.imageData, grayscaleMode),
+                    templateWidth,
+                    templateHeight,
+                    denoiseFilter,
+                    sigma,
+                    median,
+                    range
+                );
+                const hits = matchTemplate(
+                    grayData,
+                    canvas.width,
+                    canvas.height,
+                    templateGray,
+                    templateWidth,
+                    templateHeight,
+                    minScale,
+                    maxScale,
+                    angleStep,
+                    minTemplateScore(threshold, acceptance)
+                );
+
+                const found: DetectedObject[] = hits.map(({ center, scale, angle, score }, index) => {
+                    // Прямокутник шаблону, масштабований і повернутий навколо центру влучання
+                    const cos = Math.cos(angle * Math.PI / 180) * scale;
+                    const sin = Math.sin(angle * Math.PI / 180) * scale;
+                    const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([u, v]) => {
+                        const dx = u * templateWidth / 2;
+                        const dy = v * templateHeight / 2;
+                        return { x: center.x + cos * dx - sin * dy, y: center.y + sin * dx + cos * dy };
+                    });
+
+                    return squareFromCorners(index + 1, corners, templateConfidence(score, threshold), null);
+                });
+                found.forEach(object => drawSquare(ctx, object));
+
+                setDetections(found);
+                setSelectedObjectId(null);
+                setQueryObjectId(null);
+                setHighlightedImage(null);
+                setProcessedImage(canvas.toDataURL());
+                toast.success(`Обробка завершена. Знайдено влучань шаблону: ${found.length}`, {
+                    description: `Шаблон ${templateWidth}×${templateHeight}, масштаби ${minScale}–${maxScale}, крок кута ${angleStep}°, поріг NCC ${threshold}. ${GRAYSCALE_MODE_LABELS[grayscaleMode]}${denoiseInfo}`,
+                });
+                return;
             }
-            ctx.putImageData(out, 0, 0);
 
-            // Пошук контурів об'єктів
-            const contours = findContours(binaryData, canvas.width, canvas.height);
+            // Пошук квадратів за краями: Canny → прямі Хафа → четвірки прямих
+            if (segmentationMode === "edges") {
+                const low = typeof cannyLow === "number" ? cannyLow : 50;
+                const high = Math.max(low, typeof cannyHigh === "number" ? cannyHigh : 150);
+                const minSide = typeof minSquareSide === "number" ? minSquareSide : 20;
+                const voteRatio = typeof houghVoteRatio === "number" && houghVoteRatio > 0 ? houghVoteRatio : 0.75;
+                const minVotes = Math.max(2, Math.round(minSide * voteRatio));
+
+                const { edges, gx, gy } = cannyEdges(grayData, canvas.width, canvas.height, low, high);
+
+                // Відображення карти країв
+                const out = ctx.createImageData(canvas.width, canvas.height);
+                for (let i = 0; i < edges.length; i++) {
+                    const v = edges[i];
+                    const o = i * 4;
+                    out.data[o] = v;
+                    out.data[o + 1] = v;
+                    out.data[o + 2] = v;
+                    out.data[o + 3] = 255;
+                }
+                ctx.putImageData(out, 0, 0);
+
+                const lines = houghLines(edges, gx, gy, canvas.width, canvas.height, minVotes);
+                // Впевненість: підтвердженість сторін краями, рівність сторін і прямі кути
+                const squares = findSquaresFromLines(lines, edges, canvas.width, canvas.height, minSide)
+                    .map(({ corners, support }) => {
+                        const { sideRatio, maxAngleDeviation } = analyzePolygon(corners);
+                        const confidence = Math.min(
+                            ramp(support, 0.5, 1),
+                            ramp(sideRatio, 0.6, 1),
+                            ramp(maxAngleDeviation, 30, 0)
+                        );
+                        return { corners, confidence };
+                    })
+                    .filter(square => square.confidence >= acceptance);
+
+                const found: DetectedObject[] = squares.map(({ corners, confidence }, index) =>
+                    squareFromCorners(index + 1, corners, confidence, refineCorners(corners, gx, gy, canvas.width, canvas.height))
+                );
+                found.forEach(object => drawSquare(ctx, object));
+
+                setDetections(found);
+                setSelectedObjectId(null);
+                setQueryObjectId(null);
+                setHighlightedImage(null);
+                setProcessedImage(canvas.toDataURL());
+                toast.success(`Обробка завершена. Знайдено квадратів: ${found.length}`, {
+                    description: `Прямих Хафа: ${lines.length}. ${GRAYSCALE_MODE_LABELS[grayscaleMode]}${denoiseInfo}; Canny ${low}/${high}, мінімальна сторона ${minSide}, поріг голосів Хафа ${minVotes}`,
+                });
+                return;
+            }
 
-            let squaresFound = 0;
-            contours.forEach(contour => {
-                // Обчислення характеристик кожного об'єкта
-                const features = calculateFeatures(contour, canvas.width, canvas.height, binaryData);
+            // Маски об'єктів: одна для порогової бінаризації або по одній на кожен кластер кольору
+            let masks: { mask: Uint8ClampedArray; color: string | null }[];
+            let segmentationInfo: string;
+
+            if (segmentationMode === "color") {
+                const k = typeof clusterCount === "number" ? clusterCount : 4;
+                const { clusters, labels } = clusterColors(imageData, k);
+
+                // Відображення квантованого зображення (кожен піксель - колір свого кластера)
+                const out = ctx.createImageData(canvas.width, canvas.height);
+                for (let i = 0; i < labels.length; i++) {
+                    const [r, g, b] = clusters[labels[i]].rgb;
+                    const o = i * 4;
+                    out.data[o] = r;
+                    out.data[o + 1] = g;
+                    out.data[o + 2] = b;
+                    out.data[o + 3] = 255;
+                }
+                ctx.putImageData(out, 0, 0);
+
+                masks = buildClusterMasks(labels, clusters, canvas.width, canvas.height, keepHoles)
+                    .map(({ mask, color }) => ({
+                        mask: applyMorphology(mask, canvas.width, canvas.height, morphologySteps),
+                        color,
+                    }));
+                segmentationInfo = `Кольорова сегментація (k-means у Lab), k = ${clusters.length}`;
+            } else {
+                let binaryData: Uint8ClampedArray;
+                let thresholdInfo: string;
+
+                if (isLocalThresholdMethod(thresholdMethod)) {
+                    // Локальна бінаризація для нерівномірно освітлених зображень
+                    const size = typeof windowSize === "number" ? windowSize : 31;
+                    const k = typeof localK === "number" ? localK : DEFAULT_LOCAL_K[thresholdMethod];
+                    binaryData = toAdaptiveBinary(grayData, thresholdMethod, size, k, canvas.width, canvas.height, keepHoles);
+                    thresholdInfo = `вікно ${size}×${size}, k = ${k}`;
+                } else {
+                    // Вибір порогу за гістограмою яскравості
+                    const histogram = computeHistogram(grayData);
+                    const manual = typeof manualThreshold === "number" ? manualThreshold : 128;
+                    const threshold = selectThreshold(histogram, thresholdMethod, manual);
+
+                    // Бінаризація з автоматичною інверсією
+                    binaryData = toBinary(grayData, threshold, canvas.width, canvas.height, keepHoles);
+                    thresholdInfo = `поріг: ${threshold}`;
+                }
+
+                // Морфологічна обробка
+                binaryData = applyMorphology(binaryData, canvas.width, canvas.height, morphologySteps);
+
+                // Відображення бінарного зображення
+                const out = ctx.createImageData(canvas.width, canvas.height);
+                for (let i = 0; i < binaryData.length; i++) {
+                    const v = binaryData[i];
+                    const o = i * 4;
+                    out.data[o] = v;
+                    out.data[o + 1] = v;
+                    out.data[o + 2] = v;
+                    out.data[o + 3] = 255;
+                }
+                ctx.putImageData(out, 0, 0);
 
-                // Перевірка чи є об'єкт квадратом
-                const isSquare = isSquareShape(features);
+                masks = [{ mask: binaryData, color: null }];
+                segmentationInfo = `${GRAYSCALE_MODE_LABELS[grayscaleMode]}${denoiseInfo}; ${THRESHOLD_METHOD_LABELS[thresholdMethod]}, ${thresholdInfo}`;
+            }
 
-                if (isSquare) {
-                    squaresFound++;
-                    const center = getCenter(contour, canvas.width);
+            if (morphologySteps.length > 0) {
+                segmentationInfo += `; морфологія: ${formatMorphologySteps(morphologySteps)}`;
+            }
 
-                    // Динамічний розмір цифри залежно від розміру квадрата
-                    const objectSize = Math.sqrt(features.area);
-                    const fontSize = objectSize * 0.6;
-                    const clampedFontSize = Math.max(20, Math.min(fontSize, 150));
+            // Розділення злитих об'єктів: маска з розрізами по лініях вододілу
+            // та позначка пікселів, що належать до розділених об'єктів
+            const segments = masks.map(({ mask, color }) => {
+                if (!splitTouching) return { mask, color, split: null };
+                const { mask: separated, split } = splitTouchingObjects(mask, canvas.width, canvas.height);
+                return { mask: separated, color, split };
+            });
 
-                    ctx.fillStyle = "red";
-                    ctx.font = `bold ${clampedFontSize}px Arial`;
-                    ctx.textAlign = "center";
-                    ctx.textBaseline = "middle";
-                    ctx.fillText("4", center.x, center.y);
+            // Пошук контурів об'єктів у всіх масках
+            const objects = segments.flatMap(({ mask, color, split }) =>
+                findContours(mask, canvas.width, canvas.height).map(contour => ({
+                    contour,
+                    mask,
+                    color,
+                    split: split !== null && split[contour.stats.first] === 1,
+                }))
+            );
+
+            // Ієрархія вкладеності: які об'єкти лежать у пустотах інших
+            const hierarchy = buildHierarchy(objects.map(({ contour }) => contour));
+
+            // Градієнт яскравості для субпіксельного уточнення вершин квадратів
+            const { gx, gy } = sobelGradients(Float32Array.from(grayData), canvas.width, canvas.height);
+
+            // Кути детектора за градієнтом розмитого зображення, розподілені між об'єктами за відстанню до межі
+            const findCorners = cornerVerification || showCorners;
+            const quality = typeof cornerQuality === "number" && cornerQuality > 0 ? cornerQuality : 0.05;
+            const detectedCorners = findCorners
+                ? detectCorners(
+                    cornerResponse(Float32Array.from(grayData), canvas.width, canvas.height, cornerDetector),
+                    canvas.width,
+                    canvas.height,
+                    quality
+                )
+                : [];
+            const cornerOwners = assignCorners(detectedCorners, objects.map(({ contour }) => contour));
+            let rejectedByCorners = 0;
+
+            const found: DetectedObject[] = [];
+
+            objects.forEach(({ contour, mask, color, split }, index) => {
+                // Обчислення характеристик кожного об'єкта
+                const features = calculateFeatures(contour, canvas.width, canvas.height, mask);
+
+                // Визначення класу фігури: правилами або за найсхожішим еталоном
+                const [nearest] = matchReferenceShapes(features.fourier);
+                const match = nearest.similarity >= MIN_MATCH_SIMILARITY ? nearest : null;
+                const baseClass = classificationMode === "library"
+                    ? match?.reference.shapeClass ?? "unknown"
+                    : classifyShape(features, acceptance);
+
+                // Квадрат та чотирикутники (4 вершини, є вписаний чотирикутник) перевіряються
+                // на перспективу: фото квадратної плитки під кутом - загальний чотирикутник
+                const perspective = features.vertexCount === 4 && features.quad && baseClass !== "unknown"
+                    ? estimatePerspective(features.quad, canvas.width, canvas.height, reference)
+                    : null;
+                const squareness = squarenessScore(features);
+                const perspectiveConfidence = perspective ? perspectiveScore(perspective) : 0;
+                const candidateClass = baseClass !== "square" && perspectiveConfidence >= acceptance
+                    ? "perspectiveSquare"
+                    : baseClass;
+                const isSquareCandidate = candidateClass === "square" || candidateClass === "perspectiveSquare";
+
+                // Перевірка кутами: чотири найсильніші кути біля межі квадрата мають утворювати квадрат;
+                // непідтверджений квадрат у перспективі повертається до класу за формою, а звичайний
+                // стає неправильним чотирикутником (або невідомою фігурою)
+                const cornerPoints = findCorners
+                    ? selectObjectCorners(
+                        detectedCorners.filter((_, i) => cornerOwners[i] === index),
+                        Math.sqrt(contour.stats.area),
+                        quality
+                    )
+                    : null;
+                const cornerConfidence = cornerVerification && cornerPoints && isSquareCandidate
+                    ? cornerSquareScore(cornerPoints, candidateClass === "perspectiveSquare", canvas.width, canvas.height, reference)
+                    : 1;
+                const confidence = Math.min(
+                    candidateClass === "perspectiveSquare" ? perspectiveConfidence : squareness,
+                    cornerConfidence
+                );
+                const rejected = isSquareCandidate && cornerConfidence < acceptance;
+                const shapeClass: ShapeClass = !rejected
+                    ? candidateClass
+                    : candidateClass === "perspectiveSquare"
+                        ? baseClass
+                        : features.vertexCount === 4 && features.quad ? "quadrilateral" : "unknown";
+                if (rejected) rejectedByCorners++;
+                const center = getCenter(contour);
+                const { parent, depth } = hierarchy[index];
+
+                found.push({
+                    id: index + 1,
+                    center,
+                    area: features.area,
+                    color,
+                    shapeClass,
+                    confidence,
+                    vertexCount: features.vertexCount,
+                    sideRatio: features.sideRatio,
+                    maxAngleDeviation: features.maxAngleDeviation,
+                    angle: features.orientation,
+                    ...measurePolygon(
+                        shapeClass === "triangle" || shapeClass === "polygon" ? features.polygon : features.quad ?? []
+                    ),
+                    quad: perspective ? features.quad : null,
+                    perspective,
+                    corners: (shapeClass === "square" || shapeClass === "perspectiveSquare") && features.quad
+                        ? refineCorners(features.quad, gx, gy, canvas.width, canvas.height)
+                        : null,
+                    perimeter: features.perimeter,
+                    chainCodes: features.chainCodes,
+                    normalizedMoments: features.normalizedMoments,
+                    huMoments: features.huMoments,
+                    outline: contour.outer,
+                    cornerPoints,
+                    fourier: features.fourier,
+                    match,
+                    outlined: features.outlined,
+                    depth,
+                    parentId: parent === -1 ? null : parent + 1,
+                    split,
+                });
+
+                // У режимі бібліотеки маркер береться з еталона (якщо клас не змінила перспектива)
+                const { marker, color: markerColor } =
+                    classificationMode === "library" && match && match.reference.shapeClass === shapeClass
+                        ? match.reference
+                        : SHAPE_CLASSES[shapeClass];
+
+                // Динамічний розмір маркера залежно від розміру об'єкта
+                const objectSize = Math.sqrt(features.area);
+                const fontSize = objectSize * (marker.length > 1 ? 0.4 : 0.6);
+                const clampedFontSize = Math.max(20, Math.min(fontSize, 150));
+
+                // Маркер об'єкта, всередині якого є інші об'єкти, виносимо над ним,
+                // щоб він не перекривав маркери вкладених фігур
+                const hasChildren = hierarchy.some(node => node.parent === index);
+                const top = contour.stats.minY;
+                const markerPosition = hasChildren
+                    ? { x: center.x, y: Math.max(clampedFontSize / 2, top - clampedFontSize / 2) }
+                    : center;
+
+                ctx.font = `bold ${clampedFontSize}px Arial`;
+                ctx.textAlign = "center";
+                ctx.textBaseline = "middle";
+
+                // На кольоровому кластері маркер обводиться контрастним кольором
+                if (color) {
+                    ctx.strokeStyle = contrastColor(color);
+                    ctx.lineWidth = Math.max(2, clampedFontSize / 10);
+                    ctx.strokeText(marker, markerPosition.x, markerPosition.y);
                 }
+
+                ctx.fillStyle = markerColor;
+                ctx.fillText(marker, markerPosition.x, markerPosition.y);
+
+                drawConfidence(
+                    ctx,
+                    marker,
+                    confidence,
+                    markerPosition,
+                    clampedFontSize,
+                    markerColor,
+                    color ? contrastColor(color) : null
+                );
             });
 
+            // Кути поверх результату: кольором класу об'єкта, якому належать, або сірим
+            if (showCorners) {
+                detectedCorners.forEach((corner, i) => {
+                    const owner = cornerOwners[i];
+                    ctx.strokeStyle = owner === -1 ? SHAPE_CLASSES.unknown.color : SHAPE_CLASSES[found[owner].shapeClass].color;
+                    ctx.lineWidth = 2;
+                    ctx.beginPath();
+                    ctx.arc(corner.x, corner.y, 4, 0, 2 * Math.PI);
+                    ctx.stroke();
+                });
+            }
+
+            const classCounts = countShapeClasses(found);
+            const splitCount = found.filter(object => object.split).length;
+            const splitInfo = splitTouching ? ` Розділено вододілом: ${splitCount}.` : "";
+            const calibrationInfo = reference ? " Площину відкалібровано за еталонним квадратом." : "";
+            const cornerInfo = findCorners
+                ? ` Кутів (${CORNER_DETECTOR_LABELS[cornerDetector]}): ${detectedCorners.length}` +
+                    (cornerVerification ? `, не підтверджено квадратів: ${rejectedByCorners}.` : ".")
+                : "";
+            const libraryInfo = classificationMode === "library"
+                ? ` Збіги з еталонами: ${formatMatchCounts(found)}.`
+                : "";
+
+            setDetections(found);
+            setSelectedObjectId(null);
+            setQueryObjectId(null);
+            setHighlightedImage(null);
             setProcessedImage(canvas.toDataURL());
-            toast.success(`Обробка завершена. Знайдено квадратів: ${squaresFound}`);
+            toast.success(`Обробка завершена. Знайдено квадратів: ${classCounts.square}`, {
+                description: `${formatClassCounts(classCounts)}.${libraryInfo}${splitInfo}${cornerInfo}${calibrationInfo} ${segmentationInfo}`,
+            });
         };
         img.src = originalImage;
     };
 
     /**
-     * Перетворює кольорове зображення у відтінки сірого
-     * Використовує просте усереднення R, G, B компонентів
+     * Експортує вирізані фрагменти об'єктів: один - як PNG, кілька - як ZIP-архів PNG-файлів
+     * Фрагменти вирізаються з оригінального зображення, а не з обробленого
      */
-    const toGrayscale = (imageData: ImageData): Uint8ClampedArray => {
-        const gray = new Uint8ClampedArray(imageData.width * imageData.height);
-        for (let i = 0; i < imageData.data.length; i += 4) {
-            const avg = (imageData.data[i] + imageData.data[i + 1] + imageData.data[i + 2]) / 3;
-            gray[i / 4] = avg;
-        }
-        return gray;
-    };
-
-    // const toBinary = (grayData: Uint8ClampedArray, threshold: number, width: number, height: number): Uint8ClampedArray => {
-    //     const binary = new Uint8ClampedArray(grayData.length);
-    //     for (let i = 0; i < grayData.length; i++) {
-    //         binary[i] = grayData[i] > threshold ? 255 : 0;
-    //     }
-    //
-    //     // Підрахунок білих та чорних пікселів на краях зображення
-    //     let edgeWhite = 0;
-    //     let edgeBlack = 0;
-    //
-    //     // Верхній та нижній краї
-    //     for (let x = 0; x < width; x++) {
-    //         const topIdx = x;
-    //         const bottomIdx = (height - 1) * width + x;
-    //         if (binary[topIdx] === 255) edgeWhite++; else edgeBlack++;
-    //         if (binary[bottomIdx] === 255) edgeWhite++; else edgeBlack++;
-    //     }
-    //
-    //     // Лівий та правий краї
-    //     for (let y = 0; y < height; y++) {
-    //         const leftIdx = y * width;
-    //         const rightIdx = y * width + (width - 1);
-    //         if (binary[leftIdx] === 255) edgeWhite++; else edgeBlack++;
-    //         if (binary[rightIdx] === 255) edgeWhite++; else edgeBlack++;
-    //     }
-    //
-    //     // Якщо фон білий - інвертуємо зображення
-    //     if (edgeWhite > edgeBlack) {
-    //         for (let i = 0; i < binary.length; i++) {
-    //             binary[i] = binary[i] === 255 ? 0 : 255;
-    //         }
-    //     }
-    //
-    //     return binary;
-    // };
+    const exportCrops = (objects: DetectedObject[]) => {
+        if (!originalImage || objects.length === 0) return;
 
-    /**
-     * Бінаризація зображення з автоматичною інверсією
-     * Перевіряє краї зображення: якщо більше білих пікселів - інвертує
-     */
-    const toBinary = (grayData: Uint8ClampedArray, threshold: number, width: number, height: number): Uint8ClampedArray => {
-        const binary = new Uint8ClampedArray(grayData.length);
-        for (let i = 0; i < grayData.length; i++) {
-            binary[i] = grayData[i] > threshold ? 255 : 0;
-        }
+        const size = typeof cropSize === "number" ? cropSize : 256;
 
-        // Підрахунок білих та чорних пікселів на краях зображення
-        let edgeWhite = 0;
-        let edgeBlack = 0;
-
-        // Верхній та нижній краї
-        for (let x = 0; x < width; x++) {
-            const topIdx = x;
-            const bottomIdx = (height - 1) * width + x;
-            if (binary[topIdx] === 255) edgeWhite++; else edgeBlack++;
-            if (binary[bottomIdx] === 255) edgeWhite++; else edgeBlack++;
-        }
-
-        // Лівий та правий краї
-        for (let y = 0; y < height; y++) {
-            const leftIdx = y * width;
-            const rightIdx = y * width + (width - 1);
-            if (binary[leftIdx] === 255) edgeWhite++; else edgeBlack++;
-            if (binary[rightIdx] === 255) edgeWhite++; else edgeBlack++;
-        }
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement("canvas");
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext("2d")!;
+            ctx.drawImage(img, 0, 0);
+            const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+            const tile = document.createElement("canvas");
+            tile.width = size;
+            tile.height = size;
+            const tileCtx = tile.getContext("2d")!;
+
+            const files: { object: DetectedObject; name: string; dataUrl: string }[] = [];
+            objects.forEach(object => {
+                const corners = object.corners?.points ?? object.quad;
+                const pixels = corners && warpToSquare(source, corners, size, resampling);
+                if (!pixels) return;
+
+                const out = tileCtx.createImageData(size, size);
+                out.data.set(pixels);
+                tileCtx.putImageData(out, 0, 0);
+                files.push({
+                    object,
+                    name: `square-${object.id}-${object.confidence.toFixed(2)}.png`,
+                    dataUrl: tile.toDataURL("image/png"),
+                });
+            });
 
-        // Якщо фон білий - інвертуємо зображення
-        if (edgeWhite > edgeBlack) {
-            for (let i = 0; i < binary.length; i++) {
-                binary[i] = binary[i] === 255 ? 0 : 255;
+            if (files.length === 0) {
+                toast.error("Не вдалося вирізати фрагменти");
+                return;
             }
-        }
 
-        // Заповнення пустот (fill holes)
-        fillHoles(binary, width, height);
+            const link = document.createElement("a");
+            if (files.length === 1) {
+                link.href = files[0].dataUrl;
+                link.download = files[0].name;
+                link.click();
+            } else {
+                // До архіву додається перелік фрагментів з класом і впевненістю кожного
+                const manifest = [
+                    "file,id,class,confidence,x,y",
+                    ...files.map(({ object, name }) => [
+                        name,
+                        object.id,
+                        object.shapeClass,
+                        object.confidence.toFixed(3),
+                        object.center.x,
+                        object.center.y,
+                    ].join(",")),
+                ].join("\n") + "\n";
+                const archive = createZip([
+                    ...files.map(({ name, dataUrl }) => ({
+                        name,
+                        data: Uint8Array.from(atob(dataUrl.split(",")[1]), char => char.charCodeAt(0)),
+                    })),
+                    { name: "squares.csv", data: new TextEncoder().encode(manifest) },
+                ]);
+                const url = URL.createObjectURL(archive);
+                link.href = url;
+                link.download = "squares.zip";
+                link.click();
+                // Посилання звільняється після того, як браузер почне завантаження
+                setTimeout(() => URL.revokeObjectURL(url), 0);
+            }
 
-        return binary;
+            toast.success(`Експортовано фрагментів: ${files.length}`, {
+                description: `${size}×${size} пікселів, ${RESAMPLING_METHOD_LABELS[resampling].toLowerCase()} інтерполяція`,
+            });
+        };
+        img.src = originalImage;
     };
 
     /**
-     * Заповнює внутрішні пустоти в об'єктах (fill holes)
-     * Алгоритм: знаходимо всі чорні області, що з'єднані з краями зображення (фон),
-     * всі інші чорні області - це "дірки" всередині об'єктів, їх заповнюємо білим
+     * Завантажує ланцюгові коди меж об'єкта як текстовий файл:
+     * рядок на кожну межу у форматі "outer|hole x y коди"
      */
-    const fillHoles = (binary: Uint8ClampedArray, width: number, height: number): void => {
-        const visited = new Uint8Array(binary.length);
-
-        // Маркуємо всі чорні пікселі на краях як фон
-        const backgroundStack: number[] = [];
-
-        // Верхній та нижній краї
-        for (let x = 0; x < width; x++) {
-            const topIdx = x;
-            const bottomIdx = (height - 1) * width + x;
-            if (binary[topIdx] === 0 && !visited[topIdx]) {
-                backgroundStack.push(topIdx);
-            }
-            if (binary[bottomIdx] === 0 && !visited[bottomIdx]) {
-                backgroundStack.push(bottomIdx);
-            }
-        }
-
-        // Лівий та правий краї
-        for (let y = 0; y < height; y++) {
-            const leftIdx = y * width;
-            const rightIdx = y * width + (width - 1);
-            if (binary[leftIdx] === 0 && !visited[leftIdx]) {
-                backgroundStack.push(leftIdx);
-            }
-            if (binary[rightIdx] === 0 && !visited[rightIdx]) {
-                backgroundStack.push(rightIdx);
-            }
-        }
-
-        // Flood fill від країв - маркуємо весь зовнішній фон
-        while (backgroundStack.length > 0) {
-            const idx = backgroundStack.pop()!;
-            if (visited[idx] || binary[idx] !== 0) continue;
-
-            visited[idx] = 1;
-
-            const x = idx % width;
-            const y = Math.floor(idx / width);
-
-            // 4-сусідство
-            const neighbors = [
-                [0, -1], [1, 0], [0, 1], [-1, 0]
-            ];
-
-            for (const [dx, dy] of neighbors) {
-                const nx = x + dx;
-                const ny = y + dy;
-                if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                    const nIdx = ny * width + nx;
-                    if (!visited[nIdx] && binary[nIdx] === 0) {
-                        backgroundStack.push(nIdx);
-                    }
-                }
-            }
-        }
-
-        //  Всі чорні пікселі, які НЕ відмічені як фон - це дірки, заповнюємо їх
-        for (let i = 0; i < binary.length; i++) {
-            if (binary[i] === 0 && !visited[i]) {
-                binary[i] = 255; // Заповнюємо дірку білим
-            }
-        }
+    const exportChainCode = (object: DetectedObject) => {
+        const lines = [
+            `# Об'єкт №${object.id}: ${SHAPE_CLASSES[object.shapeClass].name}, впевненість ${object.confidence.toFixed(2)}, периметр ${object.perimeter.toFixed(2)} пікс.`,
+            "# Ланцюговий код Фрімена: 0 - схід, далі проти годинникової стрілки через 45° (вісь y вниз)",
+            ...object.chainCodes.map(({ start, codes, hole }) =>
+                `${hole ? "hole" : "outer"} ${start.x} ${start.y} ${codes}`
+            ),
+        ];
+
+        const url = URL.createObjectURL(new Blob([lines.join("\n") + "\n"], { type: "text/plain" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `chain-code-${object.id}.txt`;
+        link.click();
+        // Посилання звільняється після того, як браузер почне завантаження
+        setTimeout(() => URL.revokeObjectURL(url), 0);
     };
 
     /**
-     * Знаходить всі окремі об'єкти (контури) на бінарному зображенні
-     * Використовує алгоритм flood fill для групування пікселів
+     * Малює поверх обробленого зображення знайдені схожі об'єкти (заливка та контур)
+     * і пунктирний контур зразка; без зразка показується звичайне оброблене зображення
+     * Повзунок схожості викликає перемальовування лише після відпускання (onValueCommit),
+     * поки його тягнуть, оновлюється тільки список збігів
      */
-    const findContours = (binaryData: Uint8ClampedArray, width: number, height: number): number[][] => {
-        const visited = new Uint8Array(binaryData.length);
-        const contours: number[][] = [];
-
-        for (let i = 0; i < binaryData.length; i++) {
-            if (binaryData[i] === 255 && !visited[i]) {
-                const contour = floodFill(binaryData, visited, i, width, height);
-
-                // Ігноруємо дуже малі об'єкти (шум)
-                if (contour.length > 50) {
-                    contours.push(contour);
-                }
-            }
+    const highlightSimilar = (query: DetectedObject | null, threshold: number) => {
+        if (!processedImage || !query) {
+            setHighlightedImage(null);
+            return;
         }
 
-        return contours;
-    };
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement("canvas");
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext("2d")!;
+            ctx.drawImage(img, 0, 0);
 
-    /**
-     * Алгоритм заповнення (flood fill) для виділення зв'язаних пікселів
-     */
-    const floodFill = (
-        binaryData: Uint8ClampedArray,
-        visited: Uint8Array,
-        start: number,
-        width: number,
-        height: number
-    ): number[] => {
-        const stack = [start];
-        const contour: number[] = [];
-
-        while (stack.length > 0) {
-            const idx = stack.pop()!;
-            if (visited[idx] || binaryData[idx] !== 255) continue;
-
-            visited[idx] = 1;
-            contour.push(idx);
-
-            const x = idx % width;
-            const y = Math.floor(idx / width);
-
-            // 8-сусідство
-            const neighbors = [
-                [-1, -1], [0, -1], [1, -1],
-                [-1, 0], [1, 0],
-                [-1, 1], [0, 1], [1, 1]
-            ];
-
-            for (const [dx, dy] of neighbors) {
-                const nx = x + dx;
-                const ny = y + dy;
-                if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-                    stack.push(ny * width + nx);
-                }
-            }
-        }
+            const tracePath = (outline: Point[]) => {
+                ctx.beginPath();
+                outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+                ctx.closePath();
+            };
+            const lineWidth = Math.max(3, Math.round(Math.max(canvas.width, canvas.height) / 200));
+
+            ctx.lineWidth = lineWidth;
+            ctx.strokeStyle = "#22d3ee";
+            ctx.fillStyle = "rgba(34, 211, 238, 0.35)";
+            findSimilarObjects(query, detections, threshold).forEach(({ object }) => {
+                tracePath(object.outline);
+                ctx.fill();
+                ctx.stroke();
+            });
 
-        return contour;
+            ctx.strokeStyle = "#d946ef";
+            ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+            tracePath(query.outline);
+            ctx.stroke();
+
+            setHighlightedImage(canvas.toDataURL());
+        };
+        img.src = processedImage;
     };
 
     /**
-     * Обчислює геометричні характеристики об'єкта для класифікації
+     * Вибір зразка кліком по обробленому зображенню: найменший об'єкт, всередині
+     * якого лежить точка кліку (для вкладених фігур - внутрішній); клік повз об'єкти скидає зразок
      */
-    const calculateFeatures = (contour: number[], width: number, height: number, binaryData: Uint8ClampedArray) => {
-        const area = contour.length;
-
-        // Знаходимо мінімальний прямокутник, що описує об'єкт
-        let minX = Infinity, maxX = -Infinity;
-        let minY = Infinity, maxY = -Infinity;
-
-        contour.forEach(idx => {
-            const x = idx % width;
-            const y = Math.floor(idx / width);
-            minX = Math.min(minX, x);
-            maxX = Math.max(maxX, x);
-            minY = Math.min(minY, y);
-            maxY = Math.max(maxY, y);
-        });
-
-        const boxWidth = maxX - minX + 1;
-        const boxHeight = maxY - minY + 1;
-
-        // Aspect ratio: співвідношення сторін bounding box
-        // Для квадрата близьке до 1, для прямокутника > 1
-        const aspectRatio = boxWidth / boxHeight;
-
-        // Підрахунок периметра (довжина границі об'єкта)
-        let perimeter = 0;
-        const pixelSet = new Set(contour);
-
-        contour.forEach(idx => {
-            const x = idx % width;
-            const y = Math.floor(idx / width);
-
-            const neighbors = [
-                [0, -1], [1, 0], [0, 1], [-1, 0]
-            ];
-
-            // Якщо піксель має хоча б одного сусіда поза об'єктом - він на границі
-            for (const [dx, dy] of neighbors) {
-                const nx = x + dx;
-                const ny = y + dy;
-                const nIdx = ny * width + nx;
-                if (!pixelSet.has(nIdx)) {
-                    perimeter++;
-                    break;
-                }
-            }
-        });
+    const handleProcessedClick = (e: React.MouseEvent<HTMLImageElement>) => {
+        const image = e.currentTarget;
+        const rect = image.getBoundingClientRect();
+        const point = {
+            x: (e.clientX - rect.left) * image.naturalWidth / rect.width,
+            y: (e.clientY - rect.top) * image.naturalHeight / rect.height,
+        };
 
-        // Компактність: наскільки форма близька до кола
-        // Для кола = 1, для квадрата ≈ 0.785, для витягнутих фігур < 0.5
-        // Формула: (4 × π × площа) / (периметр²)
-        const compactness = (4 * Math.PI * area) / (perimeter * perimeter);
-
-        let sumX = 0, sumY = 0;
-        let sumX2 = 0, sumY2 = 0, sumXY = 0;
-
-        contour.forEach(idx => {
-            const x = idx % width;
-            const y = Math.floor(idx / width);
-            sumX += x;
-            sumY += y;
-            sumX2 += x * x;
-            sumY2 += y * y;
-            sumXY += x * y;
-        });
+        const hit = detections
+            .filter(detection => isInside(point, detection.outline))
+            .sort((a, b) => a.area - b.area)[0] ?? null;
 
-        // Центр мас об'єкта
-        const centerX = sumX / area;
-        const centerY = sumY / area;
-
-        // Центральні моменти другого порядку
-        // mu20: "розтягнутість" по горизонталі
-        // mu02: "розтягнутість" по вертикалі
-        // mu11: "скошеність" (якщо фігура повернута)
-        const mu20 = sumX2 / area - centerX * centerX;
-        const mu02 = sumY2 / area - centerY * centerY;
-        const mu11 = sumXY / area - centerX * centerY;
-
-        // Власні значення матриці інерції
-        // Вони показують головні осі об'єкта (як довгі та короткі осі еліпса)
-        const lambda1 = (mu20 + mu02 + Math.sqrt((mu20 - mu02) ** 2 + 4 * mu11 ** 2)) / 2;
-        const lambda2 = (mu20 + mu02 - Math.sqrt((mu20 - mu02) ** 2 + 4 * mu11 ** 2)) / 2;
-
-        // Еліптичність (eccentricity): наскільки форма витягнута
-        // 0 = ідеальне коло/квадрат (симетрична фігура)
-        // близько до 1 = дуже витягнутий еліпс/прямокутник
-        const eccentricity = lambda1 > 0 ? Math.sqrt(1 - lambda2 / lambda1) : 1;
-
-        return { area, perimeter, compactness, aspectRatio, boxWidth, boxHeight, eccentricity };
+        setQueryObjectId(hit?.id ?? null);
+        if (hit) setSelectedObjectId(hit.id);
+        highlightSimilar(hit, similarityThreshold);
     };
 
     /**
-     * Визначає чи є об'єкт квадратом
-     * Працює для прямих і повернутих квадратів (до 60°)
+     * Позначає об'єкт як еталонний квадрат (або скидає калібрування при null)
+     * та повторно обробляє зображення з випрямленням площини за ним
      */
-    const isSquareShape = (features: ReturnType<typeof calculateFeatures>): boolean => {
-        const { compactness, aspectRatio, area, boxWidth, boxHeight, eccentricity } = features;
-        const boxArea = boxWidth * boxHeight;
-
-        // Fill ratio: яку частину bounding box займає об'єкт
-        // Для прямого квадрата ≈ 1, для повернутого на 45° ≈ 0.5
-        const fillRatio = area / boxArea;
-
-        // Компактність повинна бути високою, але менше ніж у кола
-        const isCompact = compactness > 0.55 && compactness < 0.92;
-
-        // Bounding box майже квадратний, об'єкт заповнює його повністю
-        const isStraightSquare =
-            aspectRatio > 0.85 && aspectRatio < 1.15 &&  // Майже квадратний box
-            fillRatio > 0.85 &&                          // Заповнює 85%+ box
-            isCompact;
-
-        // Використовуємо еліптичність - ключовий параметр для повернутих фігур
-        // Квадрат залишається симетричним навіть при обертанні
-        const isRotatedSquare =
-            eccentricity < 0.4 &&      // Низька витягнутість (симетрична форма)
-            fillRatio > 0.45 &&        // Заповнює 35-95% box
-            fillRatio < 0.85 &&
-            isCompact &&
-            aspectRatio > 0.6 && aspectRatio < 1.7;  // Ширші межі для великих кутів
-
-        return isStraightSquare || isRotatedSquare;
+    const calibratePlane = (quad: Point[] | null) => {
+        setCalibrationQuad(quad);
+        processImage(quad);
     };
 
-    /**
-     * Обчислює центр мас об'єкта для розміщення маркера
-     */
-    const getCenter = (contour: number[], width: number): { x: number; y: number } => {
-        let sumX = 0;
-        let sumY = 0;
-
-        contour.forEach(idx => {
-            sumX += idx % width;
-            sumY += Math.floor(idx / width);
-        });
-
-        return {
-            x: sumX / contour.length,
-            y: sumY / contour.length
-        };
-    };
+    const detectionCounts = countShapeClasses(detections);
+    const contourSegmentation = segmentationMode === "threshold" || segmentationMode === "color";
+    const selectedObject = detections.find(detection => detection.id === selectedObjectId) ?? null;
+    const queryObject = detections.find(detection => detection.id === queryObjectId) ?? null;
+    const similarObjects = queryObject ? findSimilarObjects(queryObject, detections, similarityThreshold) : [];
 
     return (
         <div className="space-y-6">
@@ -576,6 +1009,726 @@ export const ImageProcessor = () => {
                         />
                     </div>
 
+                    <div>
+                        <Label htmlFor="acceptanceThreshold">Поріг впевненості для квадрата (0-1)</Label>
+                        <Input
+                            id="acceptanceThreshold"
+                            type="number"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={acceptanceThreshold}
+                            onChange={(e) => {
+                                const val = e.target.value;
+                                if (val === "") {
+                                    setAcceptanceThreshold("");
+                                } else {
+                                    const num = parseFloat(val);
+                                    if (!isNaN(num)) {
+                                        setAcceptanceThreshold(Math.max(0, Math.min(num, 1)));
+                                    }
+                                }
+                            }}
+                            placeholder="0-1"
+                            className="mt-2"
+                        />
+                    </div>
+
+                    {contourSegmentation && (
+                        <div>
+                            <Label htmlFor="classificationMode">Класифікація об'єктів</Label>
+                            <Select
+                                value={classificationMode}
+                                onValueChange={(value) => setClassificationMode(value as ClassificationMode)}
+                            >
+                                <SelectTrigger id="classificationMode" className="mt-2">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="rules">Правила за геометричними ознаками</SelectItem>
+                                    <SelectItem value="library">Найближчий еталон (дескриптори Фур'є)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div>
+                            <Label htmlFor="segmentationMode">Режим сегментації</Label>
+                            <Select
+                                value={segmentationMode}
+                                onValueChange={(value) => setSegmentationMode(value as SegmentationMode)}
+                            >
+                                <SelectTrigger id="segmentationMode" className="mt-2">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="threshold">Порогова бінаризація яскравості</SelectItem>
+                                    <SelectItem value="color">Кольорова сегментація (k-means)</SelectItem>
+                                    <SelectItem value="edges">Краї: Canny + перетворення Хафа</SelectItem>
+                                    <SelectItem value="template">Шаблон: нормована взаємна кореляція</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        {segmentationMode === "color" ? (
+                            <div>
+                                <Label htmlFor="clusterCount">Кількість кластерів кольорів (k)</Label>
+                                <Input
+                                    id="clusterCount"
+                                    type="number"
+                                    min="2"
+                                    max="16"
+                                    value={clusterCount}
+                                    onChange={(e) => {
+                                        const val = e.target.value;
+                                        if (val === "") {
+                                            setClusterCount("");
+                                        } else {
+                                            const num = parseInt(val);
+                                            if (!isNaN(num)) {
+                                                setClusterCount(Math.max(2, Math.min(num, 16)));
+                                            }
+                                        }
+                                    }}
+                                    placeholder="2-16"
+                                    className="mt-2"
+                                />
+                            </div>
+                        ) : (
+                            <>
+                                <div>
+                                    <Label htmlFor="grayscaleMode">Перетворення у відтінки сірого</Label>
+                                    <Select
+                                        value={grayscaleMode}
+                                        onValueChange={(value) => setGrayscaleMode(value as GrayscaleMode)}
+                                    >
+                                        <SelectTrigger id="grayscaleMode" className="mt-2">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {(Object.keys(GRAYSCALE_MODE_LABELS) as GrayscaleMode[]).map(mode => (
+                                                <SelectItem key={mode} value={mode}>
+                                                    {GRAYSCALE_MODE_LABELS[mode]}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
+                                <div>
+                                    <Label htmlFor="denoiseFilter">Фільтрація шуму</Label>
+                                    <Select
+                                        value={denoiseFilter}
+                                        onValueChange={(value) => setDenoiseFilter(value as DenoiseFilter)}
+                                    >
+                                        <SelectTrigger id="denoiseFilter" className="mt-2">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {(Object.keys(DENOISE_FILTER_LABELS) as DenoiseFilter[]).map(filter => (
+                                                <SelectItem key={filter} value={filter}>
+                                                    {DENOISE_FILTER_LABELS[filter]}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
+                                {(denoiseFilter === "gaussian" || denoiseFilter === "bilateral") && (
+                                    <div>
+                                        <Label htmlFor="spatialSigma">Просторова σ (пікселів)</Label>
+                                        <Input
+                                            id="spatialSigma"
+                                            type="number"
+                                            min="0.5"
+                                            max="20"
+                                            step="0.5"
+                                            value={spatialSigma}
+                                            onChange={(e) => {
+                                                const val = e.target.value;
+                                                if (val === "") {
+                                                    setSpatialSigma("");
+                                                } else {
+                                                    const num = parseFloat(val);
+                                                    if (!isNaN(num)) {
+                                                        setSpatialSigma(Math.max(0.5, Math.min(num, 20)));
+                                                    }
+                                                }
+                                            }}
+                                            className="mt-2"
+                                        />
+                                    </div>
+                                )}
+
+                                {denoiseFilter === "bilateral" && (
+                                    <div>
+                                        <Label htmlFor="rangeSigma">σ яскравості</Label>
+                                        <Input
+                                            id="rangeSigma"
+                                            type="number"
+                                            min="5"
+                                            max="128"
+                                            value={rangeSigma}
+                                            onChange={(e) => {
+                                                const val = e.target.value;
+                                                if (val === "") {
+                                                    setRangeSigma("");
+                                                } else {
+                                                    const num = parseFloat(val);
+                                                    if (!isNaN(num)) {
+                                                        setRangeSigma(Math.max(5, Math.min(num, 128)));
+                                                    }
+                                                }
+                                            }}
+                                            className="mt-2"
+                                        />
+                                    </div>
+                                )}
+
+                                {denoiseFilter === "median" && (
+                                    <div>
+                                        <Label htmlFor="medianSize">Розмір вікна медіани</Label>
+                                        <Input
+                                            id="medianSize"
+                                            type="number"
+                                            min="3"
+                                            max="31"
+                                            step="2"
+                                            value={medianSize}
+                                            onChange={(e) => {
+                                                const val = e.target.value;
+                                                if (val === "") {
+                                                    setMedianSize("");
+                                                } else {
+                                                    const num = parseInt(val);
+                                                    if (!isNaN(num)) {
+                                                        setMedianSize(Math.max(3, Math.min(num, 31)));
+                                                    }
+                                                }
+                                            }}
+                                            placeholder="3-31"
+                                            className="mt-2"
+                                        />
+                                    </div>
+                                )}
+
+                                {segmentationMode === "threshold" && (
+                                    <>
+                                        <div>
+                                            <Label htmlFor="thresholdMethod">Метод бінаризації</Label>
+                                            <Select
+                                                value={thresholdMethod}
+                                                onValueChange={(value) => {
+                                                    const method = value as ThresholdMethod;
+                                                    setThresholdMethod(method);
+                                                    if (isLocalThresholdMethod(method)) {
+                                                        setLocalK(DEFAULT_LOCAL_K[method]);
+                                                    }
+                                                }}
+                                            >
+                                                <SelectTrigger id="thresholdMethod" className="mt-2">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {(Object.keys(THRESHOLD_METHOD_LABELS) as ThresholdMethod[]).map(method => (
+                                                        <SelectItem key={method} value={method}>
+                                                            {THRESHOLD_METHOD_LABELS[method]}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+
+                                        {thresholdMethod === "fixed" && (
+                                            <div>
+                                                <Label htmlFor="manualThreshold">Поріг (0-255)</Label>
+                                                <Input
+                                                    id="manualThreshold"
+                                                    type="number"
+                                                    min="0"
+                                                    max="255"
+                                                    value={manualThreshold}
+                                                    onChange={(e) => {
+                                                        const val = e.target.value;
+                                                        if (val === "") {
+                                                            setManualThreshold("");
+                                                        } else {
+                                                            const num = parseInt(val);
+                                                            if (!isNaN(num)) {
+                                                                setManualThreshold(Math.max(0, Math.min(num, 255)));
+                                                            }
+                                                        }
+                                                    }}
+                                                    placeholder="0-255"
+                                                    className="mt-2"
+                                                />
+                                            </div>
+                                        )}
+
+                                        {isLocalThresholdMethod(thresholdMethod) && (
+                                            <>
+                                                <div>
+                                                    <Label htmlFor="windowSize">Розмір вікна (пікселів)</Label>
+                                                    <Input
+                                                        id="windowSize"
+                                                        type="number"
+                                                        min="3"
+                                                        max="255"
+                                                        step="2"
+                                                        value={windowSize}
+                                                        onChange={(e) => {
+                                                            const val = e.target.value;
+                                                            if (val === "") {
+                                                                setWindowSize("");
+                                                            } else {
+                                                                const num = parseInt(val);
+                                                                if (!isNaN(num)) {
+                                                                    setWindowSize(Math.max(3, Math.min(num, 255)));
+                                                                }
+                                                            }
+                                                        }}
+                                                        placeholder="3-255"
+                                                        className="mt-2"
+                                                    />
+                                                </div>
+
+                                                <div>
+                                                    <Label htmlFor="localK">
+                                                        {thresholdMethod === "mean-c" ? "Константа C" : "Коефіцієнт k"}
+                                                    </Label>
+                                                    <Input
+                                                        id="localK"
+                                                        type="number"
+                                                        step={thresholdMethod === "mean-c" ? "1" : "0.01"}
+                                                        value={localK}
+                                                        onChange={(e) => {
+                                                            const val = e.target.value;
+                                                            if (val === "") {
+                                                                setLocalK("");
+                                                            } else {
+                                                                const num = parseFloat(val);
+                                                                if (!isNaN(num)) {
+                                                                    setLocalK(num);
+                                                                }
+                                                            }
+                                                        }}
+                                                        className="mt-2"
+                                                    />
+                                                </div>
+                                            </>
+                                        )}
+                                    </>
+                                )}
+
+                                {segmentationMode === "edges" && (
+                                    <>
+                                        <div>
+                                            <Label htmlFor="cannyLow">Нижній поріг Canny</Label>
+                                            <Input
+                                                id="cannyLow"
+                                                type="number"
+                                                min="1"
+                                                max="1000"
+                                                value={cannyLow}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setCannyLow("");
+                                                    } else {
+                                                        const num = parseInt(val);
+                                                        if (!isNaN(num)) {
+                                                            setCannyLow(Math.max(1, Math.min(num, 1000)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="cannyHigh">Верхній поріг Canny</Label>
+                                            <Input
+                                                id="cannyHigh"
+                                                type="number"
+                                                min="1"
+                                                max="1000"
+                                                value={cannyHigh}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setCannyHigh("");
+                                                    } else {
+                                                        const num = parseInt(val);
+                                                        if (!isNaN(num)) {
+                                                            setCannyHigh(Math.max(1, Math.min(num, 1000)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="minSquareSide">Мінімальна сторона квадрата (пікселів)</Label>
+                                            <Input
+                                                id="minSquareSide"
+                                                type="number"
+                                                min="5"
+                                                max="2000"
+                                                value={minSquareSide}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setMinSquareSide("");
+                                                    } else {
+                                                        const num = parseInt(val);
+                                                        if (!isNaN(num)) {
+                                                            setMinSquareSide(Math.max(5, Math.min(num, 2000)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="houghVoteRatio">Поріг голосів Хафа (частка мінімальної сторони)</Label>
+                                            <Input
+                                                id="houghVoteRatio"
+                                                type="number"
+                                                min="0.1"
+                                                max="2"
+                                                step="0.05"
+                                                value={houghVoteRatio}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setHoughVoteRatio("");
+                                                    } else {
+                                                        const num = parseFloat(val);
+                                                        if (!isNaN(num)) {
+                                                            setHoughVoteRatio(Math.max(0.1, Math.min(num, 2)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+                                    </>
+                                )}
+
+                                {segmentationMode === "template" && (
+                                    <>
+                                        <div>
+                                            <Label htmlFor="templateUpload">Шаблон</Label>
+                                            <div className="mt-2 flex items-center gap-3">
+                                                <Label htmlFor="templateUpload" className="flex-1">
+                                                    <Button variant="secondary" className="w-full" asChild>
+                                                        <span>
+                                                            <Upload className="mr-2 h-4 w-4" />
+                                                            Завантажити шаблон
+                                                        </span>
+                                                    </Button>
+                                                    <Input
+                                                        id="templateUpload"
+                                                        type="file"
+                                                        accept="image/*"
+                                                        onChange={handleTemplateUpload}
+                                                        className="hidden"
+                                                    />
+                                                </Label>
+                                                {template && (
+                                                    <img
+                                                        src={template.dataUrl}
+                                                        alt="Template"
+                                                        className="h-10 w-10 rounded border object-contain bg-muted"
+                                                    />
+                                                )}
+                                            </div>
+                                            <p className="text-sm text-muted-foreground mt-1">
+                                                Або виділіть шаблон мишею на оригінальному зображенні
+                                            </p>
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="templateThreshold">Поріг кореляції (впевненість 0.5)</Label>
+                                            <Input
+                                                id="templateThreshold"
+                                                type="number"
+                                                min="0"
+                                                max="1"
+                                                step="0.05"
+                                                value={templateThreshold}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setTemplateThreshold("");
+                                                    } else {
+                                                        const num = parseFloat(val);
+                                                        if (!isNaN(num)) {
+                                                            setTemplateThreshold(Math.max(0, Math.min(num, 1)));
+                                                        }
+                                                    }
+                                                }}
+                                                placeholder="0-1"
+                                                className="mt-2"
+                                            />
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="templateMinScale">Найменший масштаб шаблону</Label>
+                                            <Input
+                                                id="templateMinScale"
+                                                type="number"
+                                                min="0.1"
+                                                max="10"
+                                                step="0.1"
+                                                value={templateMinScale}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setTemplateMinScale("");
+                                                    } else {
+                                                        const num = parseFloat(val);
+                                                        if (!isNaN(num)) {
+                                                            setTemplateMinScale(Math.max(0.1, Math.min(num, 10)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="templateMaxScale">Найбільший масштаб шаблону</Label>
+                                            <Input
+                                                id="templateMaxScale"
+                                                type="number"
+                                                min="0.1"
+                                                max="10"
+                                                step="0.1"
+                                                value={templateMaxScale}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setTemplateMaxScale("");
+                                                    } else {
+                                                        const num = parseFloat(val);
+                                                        if (!isNaN(num)) {
+                                                            setTemplateMaxScale(Math.max(0.1, Math.min(num, 10)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+
+                                        <div>
+                                            <Label htmlFor="templateAngleStep">Крок кута повороту (°)</Label>
+                                            <Input
+                                                id="templateAngleStep"
+                                                type="number"
+                                                min="1"
+                                                max="360"
+                                                value={templateAngleStep}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === "") {
+                                                        setTemplateAngleStep("");
+                                                    } else {
+                                                        const num = parseInt(val);
+                                                        if (!isNaN(num)) {
+                                                            setTemplateAngleStep(Math.max(1, Math.min(num, 360)));
+                                                        }
+                                                    }
+                                                }}
+                                                className="mt-2"
+                                            />
+                                        </div>
+                                    </>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    {contourSegmentation && (
+                        <>
+                            <div className="flex flex-wrap gap-6">
+                                <div className="flex items-center gap-3">
+                                    <Switch id="keepHoles" checked={keepHoles} onCheckedChange={setKeepHoles} />
+                                    <Label htmlFor="keepHoles">
+                                        Зберігати пустоти (контурні та вкладені фігури)
+                                    </Label>
+                                </div>
+
+                                <div className="flex items-center gap-3">
+                                    <Switch id="splitTouching" checked={splitTouching} onCheckedChange={setSplitTouching} />
+                                    <Label htmlFor="splitTouching">
+                                        Розділяти дотичні фігури (вододіл)
+                                    </Label>
+                                </div>
+
+                                <div className="flex items-center gap-3">
+                                    <Switch
+                                        id="cornerVerification"
+                                        checked={cornerVerification}
+                                        onCheckedChange={setCornerVerification}
+                                    />
+                                    <Label htmlFor="cornerVerification">
+                                        Перевіряти квадрати кутами детектора
+                                    </Label>
+                                </div>
+
+                                <div className="flex items-center gap-3">
+                                    <Switch id="showCorners" checked={showCorners} onCheckedChange={setShowCorners} />
+                                    <Label htmlFor="showCorners">
+                                        Показувати кути
+                                    </Label>
+                                </div>
+                            </div>
+
+                            {(cornerVerification || showCorners) && (
+                                <div className="grid gap-4 sm:grid-cols-2">
+                                    <div>
+                                        <Label htmlFor="cornerDetector">Детектор кутів</Label>
+                                        <Select
+                                            value={cornerDetector}
+                                            onValueChange={(value) => setCornerDetector(value as CornerDetector)}
+                                        >
+                                            <SelectTrigger id="cornerDetector" className="mt-2">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(CORNER_DETECTOR_LABELS) as CornerDetector[]).map(detector => (
+                                                    <SelectItem key={detector} value={detector}>
+                                                        {CORNER_DETECTOR_LABELS[detector]}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+
+                                    <div>
+                                        <Label htmlFor="cornerQuality">Мінімальний відгук (частка найсильнішого)</Label>
+                                        <Input
+                                            id="cornerQuality"
+                                            type="number"
+                                            min="0.001"
+                                            max="1"
+                                            step="0.01"
+                                            value={cornerQuality}
+                                            onChange={(e) => {
+                                                const val = e.target.value;
+                                                if (val === "") {
+                                                    setCornerQuality("");
+                                                } else {
+                                                    const num = parseFloat(val);
+                                                    if (!isNaN(num)) {
+                                                        setCornerQuality(Math.max(0.001, Math.min(num, 1)));
+                                                    }
+                                                }
+                                            }}
+                                            placeholder="0.001-1"
+                                            className="mt-2"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between gap-3">
+                                    <Label>Морфологічна обробка</Label>
+                                    <Button variant="outline" size="sm" onClick={addMorphologyStep}>
+                                        <Plus className="mr-2 h-4 w-4" />
+                                        Додати операцію
+                                    </Button>
+                                </div>
+
+                                {morphologySteps.map((step, index) => (
+                                    <div key={step.id} className="flex flex-wrap items-center gap-2">
+                                        <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                                        <Select
+                                            value={step.operation}
+                                            onValueChange={(value) =>
+                                                updateMorphologyStep(step.id, { operation: value as MorphologyOperation })}
+                                        >
+                                            <SelectTrigger className="w-[160px]">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(MORPHOLOGY_OPERATION_LABELS) as MorphologyOperation[]).map(operation => (
+                                                    <SelectItem key={operation} value={operation}>
+                                                        {MORPHOLOGY_OPERATION_LABELS[operation]}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Select
+                                            value={step.shape}
+                                            onValueChange={(value) =>
+                                                updateMorphologyStep(step.id, { shape: value as StructuringElementShape })}
+                                        >
+                                            <SelectTrigger className="w-[140px]">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(STRUCTURING_ELEMENT_LABELS) as StructuringElementShape[]).map(shape => (
+                                                    <SelectItem key={shape} value={shape}>
+                                                        {STRUCTURING_ELEMENT_LABELS[shape]}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Input
+                                            type="number"
+                                            min="3"
+                                            max="51"
+                                            step="2"
+                                            value={step.size}
+                                            onChange={(e) => {
+                                                const num = parseInt(e.target.value);
+                                                if (!isNaN(num)) {
+                                                    // Розмір структурного елемента - непарний
+                                                    const clamped = Math.max(3, Math.min(num, 51));
+                                                    updateMorphologyStep(step.id, { size: clamped % 2 === 0 ? clamped + 1 : clamped });
+                                                }
+                                            }}
+                                            className="w-[90px]"
+                                            aria-label="Розмір структурного елемента"
+                                        />
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => moveMorphologyStep(index, -1)}
+                                            disabled={index === 0}
+                                            aria-label="Перемістити вгору"
+                                        >
+                                            <ArrowUp className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => moveMorphologyStep(index, 1)}
+                                            disabled={index === morphologySteps.length - 1}
+                                            aria-label="Перемістити вниз"
+                                        >
+                                            <ArrowDown className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => removeMorphologyStep(step.id)}
+                                            aria-label="Видалити операцію"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
                     <div className="flex flex-wrap gap-3">
                         <Button onClick={generateTestImageHandler} className="flex-1 min-w-[200px]">
                             <Wand2 className="mr-2 h-4 w-4" />
@@ -601,7 +1754,7 @@ export const ImageProcessor = () => {
                         </div>
 
                         <Button
-                            onClick={processImage}
+                            onClick={() => processImage()}
                             disabled={!originalImage}
                             className="flex-1 min-w-[200px]"
                             variant="default"
@@ -616,12 +1769,35 @@ export const ImageProcessor = () => {
             <div className="grid md:grid-cols-2 gap-6">
                 <Card className="p-6">
                     <h3 className="text-lg font-semibold mb-4">Оригінальне зображення</h3>
-                    <div className="bg-muted rounded-lg aspect-square flex items-center justify-center overflow-hidden">
+                    <div className="relative bg-muted rounded-lg aspect-square flex items-center justify-center overflow-hidden">
                         {originalImage ? (
-                            <img src={originalImage} alt="Original" className="max-w-full max-h-full object-contain" />
+                            segmentationMode === "template" ? (
+                                <img
+                                    src={originalImage}
+                                    alt="Original"
+                                    className="max-w-full max-h-full object-contain cursor-crosshair select-none"
+                                    onMouseDown={handleSelectionStart}
+                                    onMouseMove={handleSelectionMove}
+                                    onMouseUp={handleSelectionEnd}
+                                    onMouseLeave={handleSelectionEnd}
+                                />
+                            ) : (
+                                <img src={originalImage} alt="Original" className="max-w-full max-h-full object-contain" />
+                            )
                         ) : (
                             <p className="text-muted-foreground">Завантажте або згенеруйте зображення</p>
                         )}
+                        {segmentationMode === "template" && templateSelection && (
+                            <div
+                                className="absolute border-2 border-dashed border-primary pointer-events-none"
+                                style={{
+                                    left: Math.min(templateSelection.startX, templateSelection.x),
+                                    top: Math.min(templateSelection.startY, templateSelection.y),
+                                    width: Math.abs(templateSelection.x - templateSelection.startX),
+                                    height: Math.abs(templateSelection.y - templateSelection.startY),
+                                }}
+                            />
+                        )}
                     </div>
                 </Card>
 
@@ -629,13 +1805,385 @@ export const ImageProcessor = () => {
                     <h3 className="text-lg font-semibold mb-4">Оброблене зображення</h3>
                     <div className="bg-muted rounded-lg aspect-square flex items-center justify-center overflow-hidden">
                         {processedImage ? (
-                            <img src={processedImage} alt="Processed" className="max-w-full max-h-full object-contain" />
+                            <img
+                                src={highlightedImage ?? processedImage}
+                                alt="Processed"
+                                className="max-w-full max-h-full object-contain cursor-crosshair"
+                                onClick={handleProcessedClick}
+                            />
                         ) : (
                             <p className="text-muted-foreground">Результат з'явиться тут після обробки</p>
                         )}
                     </div>
                 </Card>
             </div>
+
+            {detections.length > 0 && (
+                <Card className="p-6">
+                    <h3 className="text-lg font-semibold mb-4">Знайдені об'єкти</h3>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        {(Object.keys(SHAPE_CLASSES) as ShapeClass[])
+                            .filter(shapeClass => detectionCounts[shapeClass] > 0)
+                            .map(shapeClass => (
+                                <Badge key={shapeClass} variant="outline" className="gap-2">
+                                    <span style={{ color: SHAPE_CLASSES[shapeClass].color }}>
+                                        {SHAPE_CLASSES[shapeClass].marker}
+                                    </span>
+                                    {SHAPE_CLASSES[shapeClass].name}: {detectionCounts[shapeClass]}
+                                </Badge>
+                            ))}
+                    </div>
+                    <div className="mb-4 space-y-3">
+                        <div className="flex flex-wrap items-center gap-4">
+                            <Label htmlFor="similarityThreshold" className="whitespace-nowrap">
+                                Мінімальна схожість: {similarityThreshold.toFixed(2)}
+                            </Label>
+                            <Slider
+                                id="similarityThreshold"
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                value={[similarityThreshold]}
+                                onValueChange={([value]) => setSimilarityThreshold(value)}
+                                onValueCommit={([value]) => highlightSimilar(queryObject, value)}
+                                className="max-w-xs"
+                            />
+                        </div>
+                        {queryObject ? (
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <span>
+                                    Зразок №{queryObject.id}: схожих об'єктів {similarObjects.length}
+                                </span>
+                                {similarObjects.map(({ object, similarity }) => (
+                                    <Badge key={object.id} variant="outline">
+                                        №{object.id}: {similarity.toFixed(2)}
+                                    </Badge>
+                                ))}
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => {
+                                        setQueryObjectId(null);
+                                        highlightSimilar(null, similarityThreshold);
+                                    }}
+                                >
+                                    Скинути зразок
+                                </Button>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">
+                                Клікніть об'єкт на обробленому зображенні, щоб знайти всі фігури такої ж форми
+                                незалежно від розміру та повороту
+                            </p>
+                        )}
+                    </div>
+                    {calibrationQuad && (
+                        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-muted-foreground">
+                            Площину відкалібровано за еталонним квадратом: перспектива всіх чотирикутників
+                            усувається його гомографією
+                            <Button variant="outline" size="sm" onClick={() => calibratePlane(null)}>
+                                Скинути калібрування
+                            </Button>
+                        </div>
+                    )}
+                    <div className="flex flex-wrap items-end gap-3 mb-4">
+                        <div>
+                            <Label htmlFor="cropSize">Розмір фрагмента (пікселів)</Label>
+                            <Input
+                                id="cropSize"
+                                type="number"
+                                min="16"
+                                max="2048"
+                                value={cropSize}
+                                onChange={(e) => {
+                                    const val = e.target.value;
+                                    if (val === "") {
+                                        setCropSize("");
+                                    } else {
+                                        const num = parseInt(val);
+                                        if (!isNaN(num)) {
+                                            setCropSize(Math.max(16, Math.min(num, 2048)));
+                                        }
+                                    }
+                                }}
+                                className="mt-2 w-[140px]"
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="resampling">Інтерполяція</Label>
+                            <Select
+                                value={resampling}
+                                onValueChange={(value) => setResampling(value as ResamplingMethod)}
+                            >
+                                <SelectTrigger id="resampling" className="mt-2 w-[160px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(RESAMPLING_METHOD_LABELS) as ResamplingMethod[]).map(method => (
+                                        <SelectItem key={method} value={method}>
+                                            {RESAMPLING_METHOD_LABELS[method]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <Button
+                            variant="outline"
+                            onClick={() => exportCrops(detections.filter(isCroppable))}
+                            disabled={!detections.some(isCroppable)}
+                        >
+                            <Download className="mr-2 h-4 w-4" />
+                            Усі квадрати (ZIP)
+                        </Button>
+                    </div>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>№</TableHead>
+                                <TableHead>Центр (x, y)</TableHead>
+                                <TableHead>Площа, пікс.</TableHead>
+                                <TableHead>Периметр, пікс.</TableHead>
+                                <TableHead>Вершин</TableHead>
+                                <TableHead>Сторони min/max</TableHead>
+                                <TableHead>Відхилення кутів</TableHead>
+                                <TableHead>Орієнтація</TableHead>
+                                <TableHead>Сторони, пікс.</TableHead>
+                                <TableHead>Кути</TableHead>
+                                <TableHead>Після випрямлення</TableHead>
+                                <TableHead>Гомографія</TableHead>
+                                <TableHead>Вершини ± σ, пікс.</TableHead>
+                                <TableHead>Сторони ± σ, пікс.</TableHead>
+                                <TableHead>Клас</TableHead>
+                                <TableHead>Впевненість</TableHead>
+                                <TableHead>Еталон (схожість)</TableHead>
+                                <TableHead>Фрагмент</TableHead>
+                                <TableHead>Ланцюговий код</TableHead>
+                                <TableHead>Контурна</TableHead>
+                                <TableHead>Вкладеність</TableHead>
+                                <TableHead>Розділений</TableHead>
+                                {detections.some(d => d.color) && <TableHead>Колір кластера</TableHead>}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {detections.map(detection => (
+                                <TableRow
+                                    key={detection.id}
+                                    data-state={detection.id === selectedObjectId ? "selected" : undefined}
+                                    className="cursor-pointer"
+                                    onClick={() => setSelectedObjectId(detection.id)}
+                                >
+                                    <TableCell>{detection.id}</TableCell>
+                                    <TableCell>
+                                        {detection.center.x.toFixed(1)}, {detection.center.y.toFixed(1)}
+                                    </TableCell>
+                                    <TableCell>{detection.area}</TableCell>
+                                    <TableCell>{detection.perimeter.toFixed(1)}</TableCell>
+                                    <TableCell>{detection.vertexCount}</TableCell>
+                                    <TableCell>{detection.sideRatio.toFixed(2)}</TableCell>
+                                    <TableCell>{detection.maxAngleDeviation.toFixed(1)}°</TableCell>
+                                    <TableCell>{detection.angle.toFixed(1)}°</TableCell>
+                                    <TableCell>
+                                        {detection.sides.length > 0
+                                            ? detection.sides.map(side => side.toFixed(1)).join(" / ")
+                                            : "—"}
+                                    </TableCell>
+                                    <TableCell>
+                                        {detection.angles.length > 0
+                                            ? detection.angles.map(angle => `${angle.toFixed(0)}°`).join(" / ")
+                                            : "—"}
+                                    </TableCell>
+                                    <TableCell>
+                                        {detection.perspective ? (
+                                            <div className="flex flex-col items-start gap-1">
+                                                <span>
+                                                    {detection.perspective.sideRatio.toFixed(2)},{" "}
+                                                    ±{detection.perspective.angleDeviation.toFixed(1)}°
+                                                    {detection.perspective.calibrated && " (за еталоном)"}
+                                                </span>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => calibratePlane(detection.quad)}
+                                                >
+                                                    Еталонний квадрат
+                                                </Button>
+                                            </div>
+                                        ) : "—"}
+                                    </TableCell>
+                                    <TableCell className="font-mono text-xs whitespace-nowrap">
+                                        {detection.perspective
+                                            ? formatHomography(detection.perspective.homography).map((row, index) => (
+                                                <div key={index}>{row}</div>
+                                            ))
+                                            : "—"}
+                                    </TableCell>
+                                    <TableCell className="font-mono text-xs whitespace-nowrap">
+                                        {detection.corners
+                                            ? detection.corners.points.map((point, index) => (
+                                                <div key={index}>
+                                                    ({point.x.toFixed(2)}, {point.y.toFixed(2)})
+                                                    ± {detection.corners?.uncertainty[index].toFixed(2)}
+                                                </div>
+                                            ))
+                                            : "—"}
+                                    </TableCell>
+                                    <TableCell className="font-mono text-xs whitespace-nowrap">
+                                        {detection.corners
+                                            ? detection.corners.sides.map((side, index) => (
+                                                <div key={index}>
+                                                    {side.toFixed(2)} ± {detection.corners?.sideUncertainty[index].toFixed(2)}
+                                                </div>
+                                            ))
+                                            : "—"}
+                                    </TableCell>
+                                    <TableCell>
+                                        <span style={{ color: SHAPE_CLASSES[detection.shapeClass].color }} className="font-semibold">
+                                            {SHAPE_CLASSES[detection.shapeClass].marker}
+                                        </span>{" "}
+                                        {SHAPE_CLASSES[detection.shapeClass].name}
+                                    </TableCell>
+                                    <TableCell>
+                                        <span className={detection.confidence >= (typeof acceptanceThreshold === "number" ? acceptanceThreshold : 0.5) ? "font-semibold" : "text-muted-foreground"}>
+                                            {detection.confidence.toFixed(2)}
+                                        </span>
+                                    </TableCell>
+                                    <TableCell>
+                                        {detection.match ? (
+                                            <>
+                                                <span style={{ color: detection.match.reference.color }} className="font-semibold">
+                                                    {detection.match.reference.marker}
+                                                </span>{" "}
+                                                {detection.match.reference.name} ({detection.match.similarity.toFixed(2)})
+                                            </>
+                                        ) : "—"}
+                                    </TableCell>
+                                    <TableCell>
+                                        {isCroppable(detection) ? (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => exportCrops([detection])}
+                                                aria-label="Завантажити фрагмент"
+                                            >
+                                                <Download className="h-4 w-4" />
+                                            </Button>
+                                        ) : "—"}
+                                    </TableCell>
+                                    <TableCell>
+                                        {detection.chainCodes.length > 0 ? (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => exportChainCode(detection)}
+                                                aria-label="Завантажити ланцюговий код"
+                                            >
+                                                <FileText className="h-4 w-4" />
+                                            </Button>
+                                        ) : "—"}
+                                    </TableCell>
+                                    <TableCell>{detection.outlined ? "так" : "ні"}</TableCell>
+                                    <TableCell>
+                                        {detection.depth}
+                                        {detection.parentId !== null && ` (у №${detection.parentId})`}
+                                    </TableCell>
+                                    <TableCell>{detection.split ? "так" : "ні"}</TableCell>
+                                    {detections.some(d => d.color) && (
+                                        <TableCell>
+                                            {detection.color && (
+                                                <span className="inline-flex items-center gap-2">
+                                                    <span
+                                                        className="inline-block h-4 w-4 rounded border"
+                                                        style={{ backgroundColor: detection.color }}
+                                                    />
+                                                    {detection.color}
+                                                </span>
+                                            )}
+                                        </TableCell>
+                                    )}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </Card>
+            )}
+
+            {selectedObject && (
+                <Card className="p-6">
+                    <h3 className="text-lg font-semibold mb-4">
+                        Об'єкт №{selectedObject.id}: {SHAPE_CLASSES[selectedObject.shapeClass].name}
+                    </h3>
+                    {selectedObject.normalizedMoments && selectedObject.huMoments ? (
+                        <div className="grid gap-6 md:grid-cols-2">
+                            <div>
+                                <h4 className="font-medium mb-2">Нормовані центральні моменти η</h4>
+                                <Table>
+                                    <TableBody>
+                                        {Object.entries(selectedObject.normalizedMoments).map(([key, value]) => (
+                                            <TableRow key={key}>
+                                                <TableCell>η{key.slice(1)}</TableCell>
+                                                <TableCell className="font-mono">{value.toExponential(4)}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                            <div>
+                                <h4 className="font-medium mb-2">Інваріанти Ху</h4>
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>φ</TableHead>
+                                            <TableHead>Значення</TableHead>
+                                            <TableHead>−sign·lg|φ|</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {selectedObject.huMoments.map((value, index) => (
+                                            <TableRow key={index}>
+                                                <TableCell>φ{index + 1}</TableCell>
+                                                <TableCell className="font-mono">{value.toExponential(4)}</TableCell>
+                                                <TableCell className="font-mono">
+                                                    {value === 0 ? "—" : (-Math.sign(value) * Math.log10(Math.abs(value))).toFixed(2)}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-muted-foreground">
+                            Моменти обчислюються лише для об'єктів, знайдених за контурами
+                        </p>
+                    )}
+                    <h4 className="font-medium mt-6 mb-2">Схожість з еталонами за дескрипторами Фур'є</h4>
+                    <div className="flex flex-wrap gap-2">
+                        {matchReferenceShapes(selectedObject.fourier).map(({ reference, similarity }) => (
+                            <Badge
+                                key={reference.name}
+                                variant={similarity >= MIN_MATCH_SIMILARITY ? "default" : "outline"}
+                                className="gap-2"
+                            >
+                                {reference.name}: {similarity.toFixed(2)}
+                            </Badge>
+                        ))}
+                    </div>
+                    {selectedObject.cornerPoints && (
+                        <>
+                            <h4 className="font-medium mt-6 mb-2">
+                                Найсильніші кути детектора біля межі: {selectedObject.cornerPoints.length}
+                            </h4>
+                            <div className="flex flex-wrap gap-2">
+                                {selectedObject.cornerPoints.map((p, index) => (
+                                    <Badge key={index} variant="outline" className="font-mono">
+                                        ({p.x.toFixed(1)}, {p.y.toFixed(1)})
+                                    </Badge>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </Card>
+            )}
         </div>
     );
 };
\ No newline at end of file
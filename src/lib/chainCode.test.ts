@@ -0,0 +1,40 @@
+/**
+ * Ланцюгові коди Фрімена та оцінка периметра на растеризованих фігурах
+ */
+
+import { describe, expect, it } from "vitest";
+import { findContours } from "@/lib/contours";
+import { encodeChainCode, estimatePerimeter } from "@/lib/chainCode";
+import { rasterize, squareMask } from "@/test/masks";
+
+const SIZE = 160;
+const CENTER = { x: SIZE / 2, y: SIZE / 2 };
+
+const boundaryCodes = (mask: Uint8ClampedArray) => encodeChainCode(findContours(mask, SIZE, SIZE)[0].outer);
+
+describe("encodeChainCode", () => {
+    it("encodes every step including the one back to the start", () => {
+        expect(encodeChainCode([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }])).toBe("0642");
+        expect(encodeChainCode([{ x: 0, y: 0 }, { x: 1, y: -1 }, { x: 2, y: 0 }, { x: 1, y: 1 }])).toBe("1753");
+        expect(encodeChainCode([{ x: 3, y: 3 }])).toBe("");
+    });
+});
+
+describe("estimatePerimeter", () => {
+    // Межа проходить через центри крайніх пікселів, тобто на півпікселя всередині фігури
+    it("does not depend on the rotation of a square", () => {
+        const expected = 4 * (60 - 1);
+        for (const angle of [0, 10, 20, 30, 45]) {
+            const perimeter = estimatePerimeter(boundaryCodes(squareMask(SIZE, SIZE, CENTER, 60, angle)));
+            expect(Math.abs(perimeter - expected) / expected).toBeLessThan(0.03);
+        }
+    });
+
+    it("measures circles within one percent", () => {
+        for (const radius of [20, 40, 60]) {
+            const mask = rasterize(SIZE, SIZE, (x, y) => Math.hypot(x - CENTER.x, y - CENTER.y) <= radius);
+            const expected = 2 * Math.PI * (radius - 0.5);
+            expect(Math.abs(estimatePerimeter(boundaryCodes(mask)) - expected) / expected).toBeLessThan(0.01);
+        }
+    });
+});
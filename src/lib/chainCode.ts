@@ -0,0 +1,57 @@
+/**
+ * Ланцюгові коди Фрімена та оцінка периметра за ними
+ */
+
+import { Point } from "@/lib/geometry";
+
+// Напрямки ланцюгового коду Фрімена: 0 - схід, далі проти годинникової стрілки через 45°
+// (на екрані, вісь y направлена вниз): 1 - північний схід, 2 - північ, ..., 7 - південний схід
+export const FREEMAN_DIRECTIONS: [number, number][] = [
+    [1, 0], [1, -1], [0, -1], [-1, -1],
+    [-1, 0], [-1, 1], [0, 1], [1, 1]
+];
+
+/**
+ * Ланцюговий код Фрімена однієї межі
+ * start - перша точка межі, codes - напрямки кроків (цифри 0-7) до наступних точок,
+ * останній крок повертає в start; hole - межа внутрішньої пустоти
+ */
+export interface ChainCode {
+    start: Point;
+    codes: string;
+    hole: boolean;
+}
+
+/**
+ * Ланцюговий код Фрімена замкненої межі: напрямок кожного кроку між сусідніми
+ * (у 8-зв'язності) точками, включно з кроком з останньої точки в першу
+ */
+export const encodeChainCode = (boundary: Point[]): string => {
+    if (boundary.length < 2) return "";
+
+    let codes = "";
+    for (let i = 0; i < boundary.length; i++) {
+        const a = boundary[i];
+        const b = boundary[(i + 1) % boundary.length];
+        codes += FREEMAN_DIRECTIONS.findIndex(([dx, dy]) => dx === b.x - a.x && dy === b.y - a.y);
+    }
+    return codes;
+};
+
+/**
+ * Оцінка довжини межі за ланцюговим кодом (Vossepoel, Smeulders, 1982):
+ * 0.980 на кожен прямий крок, 1.406 на діагональний, мінус 0.091 на кожну зміну
+ * напрямку. Для відрізків під довільним кутом похибка значно менша, ніж у простої
+ * суми 1 та √2, яка завищує довжину похилих ліній
+ */
+export const estimatePerimeter = (codes: string): number => {
+    let even = 0;
+    let odd = 0;
+    let corners = 0;
+    for (let i = 0; i < codes.length; i++) {
+        if (Number(codes[i]) % 2 === 0) even++;
+        else odd++;
+        if (codes[i] !== codes[(i + codes.length - 1) % codes.length]) corners++;
+    }
+    return 0.980 * even + 1.406 * odd - 0.091 * corners;
+};
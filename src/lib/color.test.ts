@@ -0,0 +1,51 @@
+/**
+ * Перехід у Lab і кольорова сегментація k-means
+ */
+
+import { describe, expect, it } from "vitest";
+import { rgbToLab, clusterColors, buildClusterMasks } from "@/lib/color";
+
+describe("rgbToLab", () => {
+    it("maps black, white and gray onto the lightness axis", () => {
+        const [whiteL, whiteA, whiteB] = rgbToLab(255, 255, 255);
+        expect(whiteL).toBeCloseTo(100, 1);
+        expect(whiteA).toBeCloseTo(0, 1);
+        expect(whiteB).toBeCloseTo(0, 1);
+        expect(rgbToLab(0, 0, 0)[0]).toBeCloseTo(0, 5);
+
+        const [grayL, grayA, grayB] = rgbToLab(119, 119, 119);
+        expect(grayL).toBeCloseTo(50, 0);
+        expect(Math.hypot(grayA, grayB)).toBeLessThan(0.01);
+    });
+});
+
+describe("color segmentation", () => {
+    it("gives one mask per colored shape and skips the background", () => {
+        const width = 60;
+        const height = 40;
+        const background: [number, number, number] = [235, 230, 200];
+        const shapes: { color: string; rgb: [number, number, number]; x0: number }[] = [
+            { color: "#dc2828", rgb: [220, 40, 40], x0: 5 },
+            { color: "#283cd2", rgb: [40, 60, 210], x0: 35 },
+        ];
+        const shapeAt = (i: number) => {
+            const x = i % width;
+            const y = Math.floor(i / width);
+            return shapes.find(({ x0 }) => y >= 10 && y < 30 && x >= x0 && x < x0 + 20);
+        };
+
+        const data = new Uint8ClampedArray(width * height * 4);
+        for (let i = 0; i < width * height; i++) {
+            data.set([...(shapeAt(i)?.rgb ?? background), 255], i * 4);
+        }
+        const imageData = { data, width, height } as ImageData;
+
+        const { clusters, labels } = clusterColors(imageData, 3);
+        const masks = buildClusterMasks(labels, clusters, width, height, false);
+
+        expect(masks.map(({ color }) => color).sort()).toEqual(shapes.map(({ color }) => color).sort());
+        masks.forEach(({ mask, color }) => {
+            mask.forEach((value, i) => expect(value).toBe(shapeAt(i)?.color === color ? 255 : 0));
+        });
+    });
+});
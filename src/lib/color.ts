@@ -0,0 +1,222 @@
+/**
+ * Кольорова сегментація: k-means у просторі CIE Lab та маски кластерів
+ */
+
+import { fillHoles } from "@/lib/morphology";
+
+/**
+ * Кластер кольорів, знайдений k-means
+ * lab - центр кластера у просторі CIE Lab, rgb - середній колір його пікселів
+ */
+export interface ColorCluster {
+    lab: [number, number, number];
+    rgb: [number, number, number];
+}
+
+/**
+ * Переводить колір sRGB у простір CIE Lab (біла точка D65).
+ * Евклідова відстань у Lab приблизно відповідає сприйманій різниці кольорів
+ */
+export const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+    const toLinear = (c: number) => {
+        const v = c / 255;
+        return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+    };
+    const lr = toLinear(r);
+    const lg = toLinear(g);
+    const lb = toLinear(b);
+
+    const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+    const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+    const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+
+    const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+/**
+ * Кластеризація кольорів пікселів методом k-means у просторі Lab
+ * Центри навчаються на рівномірній вибірці пікселів (ініціалізація k-means++),
+ * після чого кожен піксель зображення відноситься до найближчого центру
+ */
+export const clusterColors = (
+    imageData: ImageData,
+    k: number
+): { clusters: ColorCluster[]; labels: Uint8Array } => {
+    const data = imageData.data;
+    const pixelCount = imageData.width * imageData.height;
+
+    // Вибірка до 20000 пікселів для навчання
+    const step = Math.max(1, Math.floor(pixelCount / 20000));
+    const samples: [number, number, number][] = [];
+    for (let i = 0; i < pixelCount; i += step) {
+        samples.push(rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]));
+    }
+
+    const distance2 = (a: [number, number, number], b: [number, number, number]) =>
+        (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+    // k-means++: кожен наступний центр обирається з імовірністю, пропорційною квадрату відстані
+    const centers: [number, number, number][] = [samples[Math.floor(Math.random() * samples.length)]];
+    const nearest = samples.map(sample => distance2(sample, centers[0]));
+
+    while (centers.length < k) {
+        const total = nearest.reduce((acc, d) => acc + d, 0);
+        if (total === 0) break; // Різних кольорів менше, ніж k
+
+        let target = Math.random() * total;
+        let chosen = 0;
+        while (chosen < samples.length - 1 && target > nearest[chosen]) {
+            target -= nearest[chosen];
+            chosen++;
+        }
+        centers.push([...samples[chosen]]);
+
+        samples.forEach((sample, i) => {
+            nearest[i] = Math.min(nearest[i], distance2(sample, centers[centers.length - 1]));
+        });
+    }
+
+    // Ітерації Ллойда
+    const sampleLabels = new Uint8Array(samples.length);
+    for (let iteration = 0; iteration < 20; iteration++) {
+        let changed = false;
+
+        samples.forEach((sample, i) => {
+            let best = 0;
+            let bestDistance = Infinity;
+            centers.forEach((center, c) => {
+                const d = distance2(sample, center);
+                if (d < bestDistance) {
+                    bestDistance = d;
+                    best = c;
+                }
+            });
+            if (sampleLabels[i] !== best) {
+                sampleLabels[i] = best;
+                changed = true;
+            }
+        });
+
+        if (!changed && iteration > 0) break;
+
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        samples.forEach((sample, i) => {
+            const acc = sums[sampleLabels[i]];
+            acc[0] += sample[0];
+            acc[1] += sample[1];
+            acc[2] += sample[2];
+            acc[3]++;
+        });
+        sums.forEach((acc, c) => {
+            if (acc[3] > 0) {
+                centers[c] = [acc[0] / acc[3], acc[1] / acc[3], acc[2] / acc[3]];
+            }
+        });
+    }
+
+    // Призначення кластерів усім пікселям; однакові кольори обчислюються один раз
+    const labels = new Uint8Array(pixelCount);
+    const rgbSums = centers.map(() => [0, 0, 0, 0]);
+    const cache = new Map<number, number>();
+
+    for (let i = 0; i < pixelCount; i++) {
+        const r = data[i * 4];
+        const g = data[i * 4 + 1];
+        const b = data[i * 4 + 2];
+        const key = (r << 16) | (g << 8) | b;
+
+        let best = cache.get(key);
+        if (best === undefined) {
+            const lab = rgbToLab(r, g, b);
+            let bestDistance = Infinity;
+            best = 0;
+            centers.forEach((center, c) => {
+                const d = distance2(lab, center);
+                if (d < bestDistance) {
+                    bestDistance = d;
+                    best = c;
+                }
+            });
+            cache.set(key, best);
+        }
+
+        labels[i] = best;
+        const acc = rgbSums[best];
+        acc[0] += r;
+        acc[1] += g;
+        acc[2] += b;
+        acc[3]++;
+    }
+
+    const clusters = centers.map((lab, c) => {
+        const acc = rgbSums[c];
+        const count = Math.max(1, acc[3]);
+        return {
+            lab,
+            rgb: [
+                Math.round(acc[0] / count),
+                Math.round(acc[1] / count),
+                Math.round(acc[2] / count),
+            ] as [number, number, number],
+        };
+    });
+
+    return { clusters, labels };
+};
+
+/**
+ * Будує бінарну маску для кожного кластера кольорів
+ * Кластер, що переважає на краях зображення, вважається фоном і пропускається
+ */
+export const buildClusterMasks = (
+    labels: Uint8Array,
+    clusters: ColorCluster[],
+    width: number,
+    height: number,
+    keepHoles: boolean
+): { mask: Uint8ClampedArray; color: string }[] => {
+    const edgeCounts = new Array(clusters.length).fill(0);
+    for (let x = 0; x < width; x++) {
+        edgeCounts[labels[x]]++;
+        edgeCounts[labels[(height - 1) * width + x]]++;
+    }
+    for (let y = 0; y < height; y++) {
+        edgeCounts[labels[y * width]]++;
+        edgeCounts[labels[y * width + (width - 1)]]++;
+    }
+    const background = edgeCounts.indexOf(Math.max(...edgeCounts));
+
+    const masks: { mask: Uint8ClampedArray; color: string }[] = [];
+    clusters.forEach((cluster, c) => {
+        if (c === background) return;
+
+        const mask = new Uint8ClampedArray(labels.length);
+        for (let i = 0; i < labels.length; i++) {
+            if (labels[i] === c) mask[i] = 255;
+        }
+        if (!keepHoles) {
+            fillHoles(mask, width, height);
+        }
+
+        const [r, g, b] = cluster.rgb;
+        const color = "#" + [r, g, b].map(v => v.toString(16).padStart(2, "0")).join("");
+        masks.push({ mask, color });
+    });
+
+    return masks;
+};
+
+/**
+ * Повертає чорний або білий колір тексту, контрастний до заданого hex-кольору
+ */
+export const contrastColor = (hex: string): string => {
+    const r = parseInt(hex.slice(1, 3), 16);
+    const g = parseInt(hex.slice(3, 5), 16);
+    const b = parseInt(hex.slice(5, 7), 16);
+    return 0.299 * r + 0.587 * g + 0.114 * b > 128 ? "black" : "white";
+};
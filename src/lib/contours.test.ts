@@ -0,0 +1,269 @@
+/**
+ * Розмітка union-find проти попередньої реалізації на основі flood fill
+ * на зображеннях, побудованих так само, як у генераторі тестових зображень
+ */
+
+import { describe, expect, it } from "vitest";
+import { Point } from "@/lib/geometry";
+import { Moments } from "@/lib/moments";
+import { findContours, traceBoundary } from "@/lib/contours";
+
+const WIDTH = 600;
+const HEIGHT = 600;
+
+/**
+ * Детермінований генератор псевдовипадкових чисел (mulberry32)
+ */
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Чи лежить точка всередині опуклого многокутника (обхід в одному напрямку)
+ */
+const insideConvex = (x: number, y: number, polygon: Point[]): boolean => {
+    let sign = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+        if (cross === 0) continue;
+        if (sign === 0) sign = Math.sign(cross);
+        else if (Math.sign(cross) !== sign) return false;
+    }
+    return true;
+};
+
+/**
+ * Бінарна маска з фігурами генератора тестових зображень: квадрати (половина повернута
+ * на кут від -60° до +60°), кола, трикутники та прямокутники 1.6 × 0.65.
+ * outlined - фігури малюються контуром товщиною 4 пікселі (з пустотою всередині)
+ */
+const generateTestMask = (shapeCount: number, seed: number, outlined = false): Uint8ClampedArray => {
+    const random = createRandom(seed);
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT);
+    const shapes = ["square", "circle", "triangle", "rectangle"];
+
+    for (let i = 0; i < shapeCount; i++) {
+        const shape = shapes[Math.floor(random() * shapes.length)];
+        const cx = random() * (WIDTH - 120) + 60;
+        const cy = random() * (HEIGHT - 120) + 60;
+        const size = random() * 50 + 30;
+        const angle = shape === "square" && random() > 0.5 ? (random() * 120 - 60) * Math.PI / 180 : 0;
+
+        // Фігура як функція від відступу всередину: inset = 0 - сама фігура,
+        // inset = 4 - пустота контурної фігури
+        const contains = (x: number, y: number, inset: number): boolean => {
+            if (shape === "circle") {
+                return Math.hypot(x - cx, y - cy) <= size / 2 - inset;
+            }
+            if (shape === "triangle") {
+                const s = size / 2 - inset * 2;
+                return s > 0 && insideConvex(x, y, [
+                    { x: cx, y: cy - s },
+                    { x: cx + s, y: cy + s },
+                    { x: cx - s, y: cy + s },
+                ]);
+            }
+
+            const halfWidth = (shape === "rectangle" ? size * 0.8 : size / 2) - inset;
+            const halfHeight = (shape === "rectangle" ? size * 0.325 : size / 2) - inset;
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+            const u = (x - cx) * cos + (y - cy) * sin;
+            const v = -(x - cx) * sin + (y - cy) * cos;
+            return Math.abs(u) <= halfWidth && Math.abs(v) <= halfHeight;
+        };
+
+        const reach = size;
+        for (let y = Math.max(0, Math.floor(cy - reach)); y < Math.min(HEIGHT, cy + reach); y++) {
+            for (let x = Math.max(0, Math.floor(cx - reach)); x < Math.min(WIDTH, cx + reach); x++) {
+                const px = x + 0.5;
+                const py = y + 0.5;
+                if (contains(px, py, 0) && !(outlined && contains(px, py, 4))) {
+                    data[y * WIDTH + x] = 255;
+                }
+            }
+        }
+    }
+
+    return data;
+};
+
+/**
+ * Попередня реалізація: flood fill з 8-сусідством, межі за локальною маскою,
+ * пустоти - заливкою фону від рамки, моменти - окремим проходом по заповненій області
+ */
+const referenceContours = (binaryData: Uint8ClampedArray, width: number, height: number) => {
+    const visited = new Uint8Array(binaryData.length);
+    const result: {
+        area: number; first: number; center: Point;
+        outer: Point[]; holes: Point[][]; holeArea: number; moments: Moments;
+    }[] = [];
+
+    for (let i = 0; i < binaryData.length; i++) {
+        if (binaryData[i] !== 255 || visited[i]) continue;
+
+        const pixels: number[] = [];
+        const stack = [i];
+        while (stack.length > 0) {
+            const idx = stack.pop()!;
+            if (visited[idx] || binaryData[idx] !== 255) continue;
+            visited[idx] = 1;
+            pixels.push(idx);
+
+            const x = idx % width;
+            const y = Math.floor(idx / width);
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if ((dx || dy) && nx >= 0 && nx < width && ny >= 0 && ny < height) {
+                        stack.push(ny * width + nx);
+                    }
+                }
+            }
+        }
+
+        if (pixels.length <= 50) continue;
+
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        let first = Infinity, sumX = 0, sumY = 0;
+        pixels.forEach(idx => {
+            const x = idx % width;
+            const y = Math.floor(idx / width);
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+            first = Math.min(first, idx);
+            sumX += x;
+            sumY += y;
+        });
+
+        const localWidth = maxX - minX + 3;
+        const localHeight = maxY - minY + 3;
+        const offsetX = minX - 1;
+        const offsetY = minY - 1;
+        const mask = new Uint8Array(localWidth * localHeight);
+        pixels.forEach(idx => {
+            mask[(Math.floor(idx / width) - offsetY) * localWidth + (idx % width - offsetX)] = 1;
+        });
+
+        const toGlobal = (points: Point[]) => points.map(p => ({ x: p.x + offsetX, y: p.y + offsetY }));
+        const start = { x: first % width - offsetX, y: Math.floor(first / width) - offsetY };
+        const outer = toGlobal(traceBoundary(mask, localWidth, localHeight, start, 0));
+
+        // Зовнішній фон (4-зв'язність) від рамки; решта фону - пустоти
+        const background = new Uint8Array(mask.length);
+        const fill = (from: number) => {
+            let count = 0;
+            const queue = [from];
+            while (queue.length > 0) {
+                const idx = queue.pop()!;
+                if (background[idx] || mask[idx]) continue;
+                background[idx] = 1;
+                count++;
+
+                const x = idx % localWidth;
+                const y = Math.floor(idx / localWidth);
+                if (x > 0) queue.push(idx - 1);
+                if (x < localWidth - 1) queue.push(idx + 1);
+                if (y > 0) queue.push(idx - localWidth);
+                if (y < localHeight - 1) queue.push(idx + localWidth);
+            }
+            return count;
+        };
+        fill(0);
+        const outside = Uint8Array.from(background);
+
+        const holes: Point[][] = [];
+        let holeArea = 0;
+        for (let idx = 0; idx < mask.length; idx++) {
+            if (mask[idx] || background[idx]) continue;
+            const holeStart = { x: idx % localWidth - 1, y: Math.floor(idx / localWidth) };
+            holes.push(toGlobal(traceBoundary(mask, localWidth, localHeight, holeStart, 4)));
+            holeArea += fill(idx);
+        }
+
+        // Центральні моменти області всередині зовнішньої межі (об'єкт разом із пустотами)
+        let area = 0, centerX = 0, centerY = 0;
+        for (let idx = 0; idx < mask.length; idx++) {
+            if (outside[idx]) continue;
+            area++;
+            centerX += idx % localWidth;
+            centerY += Math.floor(idx / localWidth);
+        }
+        centerX /= area;
+        centerY /= area;
+
+        const moments: Moments = { m20: 0, m11: 0, m02: 0, m30: 0, m21: 0, m12: 0, m03: 0 };
+        for (let idx = 0; idx < mask.length; idx++) {
+            if (outside[idx]) continue;
+            const dx = idx % localWidth - centerX;
+            const dy = Math.floor(idx / localWidth) - centerY;
+            moments.m20 += dx * dx;
+            moments.m11 += dx * dy;
+            moments.m02 += dy * dy;
+            moments.m30 += dx * dx * dx;
+            moments.m21 += dx * dx * dy;
+            moments.m12 += dx * dy * dy;
+            moments.m03 += dy * dy * dy;
+        }
+
+        result.push({
+            area: pixels.length,
+            first,
+            center: { x: sumX / pixels.length, y: sumY / pixels.length },
+            outer,
+            holes,
+            holeArea,
+            moments,
+        });
+    }
+
+    return result;
+};
+
+/**
+ * Порівнює результат findContours з попередньою реалізацією
+ */
+const expectSameAsReference = (binaryData: Uint8ClampedArray) => {
+    const contours = findContours(binaryData, WIDTH, HEIGHT);
+    const reference = referenceContours(binaryData, WIDTH, HEIGHT);
+
+    expect(contours.length).toBe(reference.length);
+    contours.forEach((contour, index) => {
+        const expected = reference[index];
+        expect(contour.stats.area).toBe(expected.area);
+        expect(contour.stats.first).toBe(expected.first);
+        expect(contour.stats.sumX / contour.stats.area).toBeCloseTo(expected.center.x, 9);
+        expect(contour.stats.sumY / contour.stats.area).toBeCloseTo(expected.center.y, 9);
+        expect(contour.outer).toEqual(expected.outer);
+        expect(contour.holes).toEqual(expected.holes);
+        expect(contour.holeArea).toBe(expected.holeArea);
+
+        // Моменти з сирих сум відрізняються від двопрохідних лише похибкою округлення
+        const scale = Math.pow(expected.area + expected.holeArea, 2.5);
+        (Object.keys(expected.moments) as (keyof Moments)[]).forEach(key => {
+            expect(contour.moments[key] / scale).toBeCloseTo(expected.moments[key] / scale, 9);
+        });
+    });
+};
+
+describe("findContours", () => {
+    it("matches the flood-fill labeling on generated test images", () => {
+        for (let seed = 1; seed <= 8; seed++) {
+            expectSameAsReference(generateTestMask(5 + seed * 2, seed));
+        }
+    });
+
+    it("matches the flood-fill labeling on outlined shapes with holes", () => {
+        for (let seed = 1; seed <= 4; seed++) {
+            expectSameAsReference(generateTestMask(6, seed, true));
+        }
+    });
+});
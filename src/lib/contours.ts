@@ -0,0 +1,391 @@
+/**
+ * Зв'язні компоненти бінарної маски, їхні межі та ієрархія вкладеності
+ */
+
+import { Point, MOORE_DIRECTIONS, polygonArea, isInside } from "@/lib/geometry";
+import { Moments, RawMoments, translateMoments, addMoments, centralMoments } from "@/lib/moments";
+
+/**
+ * Статистика зв'язної компоненти, накопичена за один прохід по зображенню міток
+ * label - мітка компоненти, area - кількість пікселів, first - індекс першого пікселя
+ * в порядку розгортки, minX..maxY - обмежувальна рамка, sumX, sumY - сирі моменти
+ * першого порядку, perimeter - кількість пікселів, 4-сусідніх з фоном або краєм зображення,
+ * moments - сирі моменти до третього порядку в координатах відносно першого пікселя
+ * (малі координати тримають суми третього порядку точними навіть на великих знімках)
+ */
+export interface ComponentStats {
+    label: number;
+    area: number;
+    first: number;
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+    sumX: number;
+    sumY: number;
+    perimeter: number;
+    moments: RawMoments;
+}
+
+/**
+ * Контур об'єкта (зв'язної компоненти)
+ * stats - статистика пікселів компоненти
+ * outer - впорядкована зовнішня межа (обхід за годинниковою стрілкою)
+ * holes - впорядковані межі внутрішніх пустот
+ * holeArea - сумарна кількість пікселів у внутрішніх пустотах
+ * moments - центральні моменти області в межах зовнішньої межі (разом із пустотами)
+ */
+export interface Contour {
+    stats: ComponentStats;
+    outer: Point[];
+    holes: Point[][];
+    holeArea: number;
+    moments: Moments;
+}
+
+/**
+ * Знаходить всі окремі об'єкти (контури) на бінарному зображенні
+ * Пікселі групуються розміткою зв'язних компонент (labelComponents), після чого
+ * для кожної компоненти трасуються впорядковані зовнішня та внутрішні межі
+ */
+export const findContours = (binaryData: Uint8ClampedArray, width: number, height: number): Contour[] => {
+    // Ігноруємо дуже малі об'єкти (шум)
+    const { labels, components } = labelComponents(binaryData, 255, width, height, 8, 51);
+    return components.map(stats => traceContour(labels, stats, width));
+};
+
+/**
+ * Трасування межі методом сусідів Мура (Moore neighbor tracing)
+ * Від поточного пікселя сусіди перебираються за годинниковою стрілкою, починаючи
+ * з пікселя фону, з якого ми прийшли (backtrack); перший піксель об'єкта стає наступним.
+ * Зупинка - критерій Джейкоба: повернення у стартовий піксель з того ж напрямку
+ * @param mask - локальна маска (1 - об'єкт, 0 - фон)
+ * @param start - стартовий піксель межі
+ * @param startDirection - напрямок від стартового пікселя до сусіднього пікселя фону
+ */
+export const traceBoundary = (
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    start: Point,
+    startDirection: number
+): Point[] => {
+    const isForeground = (x: number, y: number) =>
+        x >= 0 && x < width && y >= 0 && y < height && mask[y * width + x] === 1;
+    const directionOf = (dx: number, dy: number) =>
+        MOORE_DIRECTIONS.findIndex(([ddx, ddy]) => ddx === dx && ddy === dy);
+
+    const points: Point[] = [{ x: start.x, y: start.y }];
+    let x = start.x;
+    let y = start.y;
+    let direction = startDirection;
+
+    // Запобіжник від зациклення: межа не може бути довшою за 4 обходи всіх пікселів
+    const maxSteps = mask.length * 4 + 8;
+
+    for (let step = 0; step < maxSteps; step++) {
+        let next = -1;
+        for (let i = 1; i <= 8; i++) {
+            const d = (direction + i) % 8;
+            if (isForeground(x + MOORE_DIRECTIONS[d][0], y + MOORE_DIRECTIONS[d][1])) {
+                next = d;
+                break;
+            }
+        }
+
+        // Ізольований піксель
+        if (next === -1) break;
+
+        const nx = x + MOORE_DIRECTIONS[next][0];
+        const ny = y + MOORE_DIRECTIONS[next][1];
+
+        // Останній перевірений піксель фону стає новою точкою повернення
+        const back = MOORE_DIRECTIONS[(next + 7) % 8];
+        const newDirection = directionOf(x + back[0] - nx, y + back[1] - ny);
+
+        if (nx === start.x && ny === start.y && newDirection === startDirection) break;
+
+        // Повторний вихід зі старту в другу точку межі - обхід теж завершено
+        if (x === start.x && y === start.y && points.length > 2 &&
+            nx === points[1].x && ny === points[1].y) {
+            points.pop();
+            break;
+        }
+
+        points.push({ x: nx, y: ny });
+        x = nx;
+        y = ny;
+        direction = newDirection;
+    }
+
+    return points;
+};
+
+/**
+ * Будує контур компоненти: зовнішню межу та межі всіх внутрішніх пустот
+ * @param labels - зображення міток з labelComponents
+ * @param stats - статистика компоненти (мітка, рамка, перший піксель)
+ */
+export const traceContour = (labels: Int32Array, stats: ComponentStats, width: number): Contour => {
+    const { label, first, minX, maxX, minY, maxY } = stats;
+
+    // Локальна маска з рамкою фону шириною 1 піксель
+    const localWidth = maxX - minX + 3;
+    const localHeight = maxY - minY + 3;
+    const offsetX = minX - 1;
+    const offsetY = minY - 1;
+    const mask = new Uint8Array(localWidth * localHeight);
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            if (labels[y * width + x] === label) {
+                mask[(y - offsetY) * localWidth + (x - offsetX)] = 1;
+            }
+        }
+    }
+
+    const toGlobal = (points: Point[]) => points.map(p => ({ x: p.x + offsetX, y: p.y + offsetY }));
+
+    // Зовнішня межа: перший піксель у порядку розгортки, його західний сусід - фон
+    const start = { x: first % width - offsetX, y: Math.floor(first / width) - offsetY };
+    const outer = toGlobal(traceBoundary(mask, localWidth, localHeight, start, 0));
+
+    // Компоненти фону (4-зв'язність): перша, що містить кут рамки, - зовнішній фон,
+    // решта - пустоти; кожну трасуємо від пікселя об'єкта ліворуч від її першого пікселя
+    const { components: background } = labelComponents(mask, 0, localWidth, localHeight, 4, 1);
+    const holes: Point[][] = [];
+    let holeArea = 0;
+
+    // Моменти рахуються для об'єкта разом із пустотами: контурна фігура має ту ж форму,
+    // що й заповнена. Сирі моменти пустот переносяться до першого пікселя об'єкта
+    const firstX = first % width;
+    const firstY = Math.floor(first / width);
+    let filled = stats.moments;
+
+    background.slice(1).forEach(hole => {
+        const holeX = hole.first % localWidth;
+        const holeY = Math.floor(hole.first / localWidth);
+        holes.push(toGlobal(traceBoundary(mask, localWidth, localHeight, { x: holeX - 1, y: holeY }, 4)));
+        holeArea += hole.area;
+        filled = addMoments(filled, translateMoments(hole.moments, holeX + offsetX - firstX, holeY + offsetY - firstY));
+    });
+    const moments = centralMoments(filled);
+
+    return { stats, outer, holes, holeArea, moments };
+};
+
+/**
+ * Розмітка зв'язних компонент у два проходи з об'єднанням множин (union-find)
+ * Перший прохід присвоює пікселю мітку вже розмічених сусідів (захід, північ,
+ * для 8-зв'язності ще північний захід і схід) і об'єднує різні мітки, що зустрілися.
+ * Другий прохід замінює мітки коренями множин, перенумеровує їх у порядку
+ * першого пікселя та водночас накопичує статистику кожної компоненти разом
+ * із сирими моментами до третього порядку
+ * Пам'ять - лише типізовані масиви, без черг та списків пікселів
+ * @param value - значення пікселів, що розмічаються
+ * @param minArea - компоненти з меншою кількістю пікселів не потрапляють у список
+ * (їхні мітки на зображенні залишаються)
+ */
+export const labelComponents = (
+    data: ArrayLike<number>,
+    value: number,
+    width: number,
+    height: number,
+    connectivity: 4 | 8,
+    minArea: number
+): { labels: Int32Array; components: ComponentStats[] } => {
+    const labels = new Int32Array(width * height);
+
+    // Нова мітка з'являється не частіше ніж раз на блок 2×2 (8-зв'язність)
+    // або на кожен другий піксель (4-зв'язність)
+    const maxLabels = connectivity === 8
+        ? Math.ceil(width / 2) * Math.ceil(height / 2)
+        : Math.ceil(width * height / 2);
+    const parent = new Int32Array(maxLabels + 1);
+    let nextLabel = 1;
+
+    const find = (label: number): number => {
+        while (parent[label] !== label) {
+            parent[label] = parent[parent[label]];
+            label = parent[label];
+        }
+        return label;
+    };
+
+    const merge = (current: number, neighbor: number): number => {
+        if (neighbor === 0) return current;
+        if (current === 0) return neighbor;
+
+        const a = find(current);
+        const b = find(neighbor);
+        if (a < b) parent[b] = a;
+        else if (b < a) parent[a] = b;
+        return Math.min(a, b);
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = y * width + x;
+            if (data[idx] !== value) continue;
+
+            let label = 0;
+            if (x > 0) label = merge(label, labels[idx - 1]);
+            if (y > 0) {
+                label = merge(label, labels[idx - width]);
+                if (connectivity === 8) {
+                    if (x > 0) label = merge(label, labels[idx - width - 1]);
+                    if (x < width - 1) label = merge(label, labels[idx - width + 1]);
+                }
+            }
+
+            if (label === 0) {
+                label = nextLabel++;
+                parent[label] = label;
+            }
+            labels[idx] = label;
+        }
+    }
+
+    // Статистика зберігається в типізованих масивах за остаточною міткою
+    const finalLabel = new Int32Array(nextLabel);
+    let count = 0;
+    for (let label = 1; label < nextLabel; label++) {
+        if (find(label) === label) count++;
+    }
+
+    const area = new Int32Array(count + 1);
+    const first = new Int32Array(count + 1);
+    const minX = new Int32Array(count + 1);
+    const maxX = new Int32Array(count + 1);
+    const minY = new Int32Array(count + 1);
+    const maxY = new Int32Array(count + 1);
+    const perimeter = new Int32Array(count + 1);
+    const sumX = new Float64Array(count + 1);
+    const sumY = new Float64Array(count + 1);
+    const firstX = new Int32Array(count + 1);
+    const m20 = new Float64Array(count + 1);
+    const m11 = new Float64Array(count + 1);
+    const m02 = new Float64Array(count + 1);
+    const m30 = new Float64Array(count + 1);
+    const m21 = new Float64Array(count + 1);
+    const m12 = new Float64Array(count + 1);
+    const m03 = new Float64Array(count + 1);
+    let assigned = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = y * width + x;
+            if (labels[idx] === 0) continue;
+
+            const root = find(labels[idx]);
+            if (finalLabel[root] === 0) {
+                finalLabel[root] = ++assigned;
+                first[assigned] = idx;
+                firstX[assigned] = x;
+                minX[assigned] = x;
+                maxX[assigned] = x;
+                minY[assigned] = y;
+            }
+
+            const label = finalLabel[root];
+            labels[idx] = label;
+
+            area[label]++;
+            if (x < minX[label]) minX[label] = x;
+            if (x > maxX[label]) maxX[label] = x;
+            maxY[label] = y;
+            sumX[label] += x;
+            sumY[label] += y;
+
+            // Моменти вищих порядків - відносно першого пікселя компоненти
+            const dx = x - firstX[label];
+            const dy = y - minY[label];
+            m20[label] += dx * dx;
+            m11[label] += dx * dy;
+            m02[label] += dy * dy;
+            m30[label] += dx * dx * dx;
+            m21[label] += dx * dx * dy;
+            m12[label] += dx * dy * dy;
+            m03[label] += dy * dy * dy;
+
+            if (x === 0 || x === width - 1 || y === 0 || y === height - 1 ||
+                data[idx - 1] !== value || data[idx + 1] !== value ||
+                data[idx - width] !== value || data[idx + width] !== value) {
+                perimeter[label]++;
+            }
+        }
+    }
+
+    const components: ComponentStats[] = [];
+    for (let label = 1; label <= count; label++) {
+        if (area[label] < minArea) continue;
+        components.push({
+            label,
+            area: area[label],
+            first: first[label],
+            minX: minX[label],
+            maxX: maxX[label],
+            minY: minY[label],
+            maxY: maxY[label],
+            sumX: sumX[label],
+            sumY: sumY[label],
+            perimeter: perimeter[label],
+            moments: {
+                m00: area[label],
+                m10: sumX[label] - area[label] * firstX[label],
+                m01: sumY[label] - area[label] * minY[label],
+                m20: m20[label],
+                m11: m11[label],
+                m02: m02[label],
+                m30: m30[label],
+                m21: m21[label],
+                m12: m12[label],
+                m03: m03[label],
+            },
+        });
+    }
+
+    return { labels, components };
+};
+
+/**
+ * Будує ієрархію вкладеності об'єктів
+ * Об'єкт є дочірнім до іншого, якщо лежить в одній з його пустот; з кількох
+ * таких пустот обирається найменша (найглибша). depth - кількість предків
+ */
+export const buildHierarchy = (contours: Contour[]): { parent: number; depth: number }[] => {
+    const holes = contours.flatMap((contour, owner) =>
+        contour.holes.map(boundary => ({ owner, boundary, area: polygonArea(boundary) }))
+    );
+
+    const parents = contours.map((contour, index) => {
+        const probe = contour.outer[0];
+        let parent = -1;
+        let parentHoleArea = Infinity;
+
+        holes.forEach(hole => {
+            if (hole.owner === index || hole.area >= parentHoleArea) return;
+            if (isInside(probe, hole.boundary)) {
+                parent = hole.owner;
+                parentHoleArea = hole.area;
+            }
+        });
+
+        return parent;
+    });
+
+    return parents.map(parent => {
+        let depth = 0;
+        for (let node = parent; node !== -1 && depth < contours.length; node = parents[node]) {
+            depth++;
+        }
+        return { parent, depth };
+    });
+};
+
+/**
+ * Обчислює центр мас об'єкта для розміщення маркера
+ */
+export const getCenter = (contour: Contour): Point => ({
+    x: contour.stats.sumX / contour.stats.area,
+    y: contour.stats.sumY / contour.stats.area
+});
@@ -0,0 +1,56 @@
+/**
+ * Детектори кутів і перевірка квадрата кутами на бінарних масках
+ */
+
+import { describe, expect, it } from "vitest";
+import { Point } from "@/lib/geometry";
+import { findContours } from "@/lib/contours";
+import {
+    CornerDetector,
+    cornerResponse,
+    detectCorners,
+    assignCorners,
+    selectObjectCorners,
+    cornerSquareScore,
+} from "@/lib/corners";
+import { squareMask } from "@/test/masks";
+
+const SIZE = 160;
+const CENTER = { x: SIZE / 2, y: SIZE / 2 };
+
+/**
+ * Кути, які перевірка квадрата бере для єдиного об'єкта маски
+ */
+const objectCorners = (mask: Uint8ClampedArray, detector: CornerDetector): Point[] => {
+    const contours = findContours(mask, SIZE, SIZE);
+    const corners = detectCorners(cornerResponse(Float32Array.from(mask), SIZE, SIZE, detector), SIZE, SIZE, 0.05);
+    const owners = assignCorners(corners, contours);
+    return selectObjectCorners(
+        corners.filter((_, i) => owners[i] === 0),
+        Math.sqrt(contours[0].stats.area),
+        0.05
+    );
+};
+
+describe("corner verification", () => {
+    it("finds the four vertices of rotated binary squares", () => {
+        for (const detector of ["harris", "shi-tomasi"] as const) {
+            for (const side of [30, 50, 80]) {
+                for (let angle = 0; angle < 90; angle += 5) {
+                    const corners = objectCorners(squareMask(SIZE, SIZE, CENTER, side, angle), detector);
+                    expect(corners).toHaveLength(4);
+                    expect(cornerSquareScore(corners, false, SIZE, SIZE, null)).toBeGreaterThan(0.5);
+                }
+            }
+        }
+    });
+
+    it("scores only four corners that form a square", () => {
+        const square = [{ x: 10, y: 10 }, { x: 50, y: 10 }, { x: 50, y: 50 }, { x: 10, y: 50 }];
+        expect(cornerSquareScore(square, false, SIZE, SIZE, null)).toBeCloseTo(1);
+        expect(cornerSquareScore(square.slice(0, 3), false, SIZE, SIZE, null)).toBe(0);
+
+        const rectangle = [{ x: 10, y: 10 }, { x: 90, y: 10 }, { x: 90, y: 50 }, { x: 10, y: 50 }];
+        expect(cornerSquareScore(rectangle, false, SIZE, SIZE, null)).toBeLessThan(0.5);
+    });
+});
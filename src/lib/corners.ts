@@ -0,0 +1,360 @@
+/**
+ * Вершини квадратів: субпіксельне уточнення та детектори кутів Харріса / Ші–Томасі
+ */
+
+import { Point, measurePolygon, orderCorners, analyzePolygon } from "@/lib/geometry";
+import { ramp } from "@/lib/fuzzy";
+import { estimatePerspective, perspectiveScore } from "@/lib/perspective";
+import { gaussianBlur } from "@/lib/filters";
+import { sobelGradients } from "@/lib/edges";
+import { Contour } from "@/lib/contours";
+
+/**
+ * Вершини квадрата, уточнені до субпікселя за градієнтом яскравості
+ * points - 4 вершини за годинниковою стрілкою, починаючи з верхньої лівої
+ * uncertainty - стандартне відхилення положення кожної вершини (пікселів)
+ * sides, sideUncertainty - довжини сторін points[i] → points[i + 1] та їхні стандартні відхилення
+ */
+export interface SubpixelCorners {
+    points: Point[];
+    uncertainty: number[];
+    sides: number[];
+    sideUncertainty: number[];
+}
+
+/**
+ * Відгук детектора кутів на тензор структури M (усереднені добутки градієнтів)
+ * harris - det M − k·(tr M)², shi-tomasi - менше власне значення M
+ */
+/**
+ * Кут детектора: положення та відгук, за яким кути порівнюються між собою
+ */
+export interface Corner extends Point {
+    response: number;
+}
+
+export type CornerDetector = "harris" | "shi-tomasi";
+
+export const CORNER_DETECTOR_LABELS: Record<CornerDetector, string> = {
+    harris: "Харріс",
+    "shi-tomasi": "Ші–Томасі",
+};
+
+// Емпіричний коефіцієнт k у відгуку Харріса
+export const HARRIS_K = 0.04;
+
+// σ гаусового розмиття зображення перед градієнтами: згладжує сходинки
+// похилих сторін бінарних фігур, кожна з яких інакше дає власний кут
+export const CORNER_SMOOTHING_SIGMA = 1.5;
+
+// σ гаусового вікна, яким усереднюються добутки градієнтів
+export const CORNER_WINDOW_SIGMA = 1.5;
+
+// Найменша відстань між кутами: з ближчих лишається кут із найсильнішим відгуком
+export const CORNER_MIN_DISTANCE = 5;
+
+// Найменша відстань між кутами одного об'єкта як частка сторони квадрата його площі
+export const CORNER_SPACING_RATIO = 0.3;
+
+// Найбільша відстань (у пікселях) від кута до зовнішньої межі об'єкта, якому він належить
+export const CORNER_ASSOCIATION_DISTANCE = 4;
+
+/**
+ * Уточнює вершини квадрата до субпікселя за градієнтом яскравості
+ * (як cornerSubPix в OpenCV): для кожної точки p поблизу справжньої вершини q
+ * градієнт g(p) або нульовий (всередині чи зовні фігури), або перпендикулярний
+ * до p - q (на стороні, що проходить через q). Тому q мінімізує
+ * Σ w·(g·(p - q))² і знаходиться з системи 2×2 (Σ w·g·gᵀ)·q = Σ w·g·gᵀ·p,
+ * де w - гаусова вага відстані до поточної оцінки. Вікно переміщується
+ * за оцінкою, доки вона не зупиниться
+ * Невизначеність - коваріація σ²·(Σ w·g·gᵀ)⁻¹, де σ² оцінюється за залишками
+ */
+export const refineCorners = (
+    quad: Point[],
+    gx: Float32Array,
+    gy: Float32Array,
+    width: number,
+    height: number
+): SubpixelCorners => {
+    const initial = orderCorners(quad);
+    const { sides: initialSides } = measurePolygon(initial);
+    const radius = Math.max(2, Math.min(7, Math.round(Math.min(...initialSides) * 0.15)));
+    const sigma = radius / 2;
+
+    const refined = initial.map(start => {
+        let q = start;
+        let covariance = [Infinity, 0, Infinity];
+
+        for (let iteration = 0; iteration < 10; iteration++) {
+            const cx = Math.round(q.x);
+            const cy = Math.round(q.y);
+            let a11 = 0, a12 = 0, a22 = 0, b1 = 0, b2 = 0;
+            let count = 0;
+
+            for (let y = cy - radius; y <= cy + radius; y++) {
+                for (let x = cx - radius; x <= cx + radius; x++) {
+                    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+                    const idx = y * width + x;
+                    const w = Math.exp(-((x - q.x) ** 2 + (y - q.y) ** 2) / (2 * sigma * sigma));
+                    const ggx = gx[idx] * gx[idx] * w;
+                    const ggy = gy[idx] * gy[idx] * w;
+                    const gxy = gx[idx] * gy[idx] * w;
+
+                    a11 += ggx;
+                    a12 += gxy;
+                    a22 += ggy;
+                    b1 += ggx * x + gxy * y;
+                    b2 += gxy * x + ggy * y;
+                    count++;
+                }
+            }
+
+            // Вироджена система: у вікні лише одна сторона або немає країв
+            const det = a11 * a22 - a12 * a12;
+            if (det <= 1e-9 * (a11 + a22) ** 2) break;
+
+            const next = {
+                x: (a22 * b1 - a12 * b2) / det,
+                y: (a11 * b2 - a12 * b1) / det,
+            };
+
+            // Оцінка втекла з вікна - уточнення ненадійне, залишаємо вершину контуру
+            if (Math.hypot(next.x - start.x, next.y - start.y) > radius) break;
+
+            let residual = 0;
+            for (let y = cy - radius; y <= cy + radius; y++) {
+                for (let x = cx - radius; x <= cx + radius; x++) {
+                    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+                    const idx = y * width + x;
+                    const w = Math.exp(-((x - q.x) ** 2 + (y - q.y) ** 2) / (2 * sigma * sigma));
+                    residual += w * (gx[idx] * (x - next.x) + gy[idx] * (y - next.y)) ** 2;
+                }
+            }
+            const variance = residual / Math.max(1, count - 2);
+            covariance = [variance * a22 / det, -variance * a12 / det, variance * a11 / det];
+
+            const shift = Math.hypot(next.x - q.x, next.y - q.y);
+            q = next;
+            if (shift < 0.01) break;
+        }
+
+        return { point: q, covariance };
+    });
+
+    const points = refined.map(corner => corner.point);
+    const sides: number[] = [];
+    const sideUncertainty: number[] = [];
+
+    // Дисперсія довжини сторони - сума дисперсій її кінців уздовж напрямку сторони
+    for (let i = 0; i < 4; i++) {
+        const a = refined[i];
+        const b = refined[(i + 1) % 4];
+        const length = Math.hypot(b.point.x - a.point.x, b.point.y - a.point.y);
+        const ux = (b.point.x - a.point.x) / (length || 1);
+        const uy = (b.point.y - a.point.y) / (length || 1);
+        const along = (c: number[]) => ux * ux * c[0] + 2 * ux * uy * c[1] + uy * uy * c[2];
+
+        sides.push(length);
+        sideUncertainty.push(Math.sqrt(along(a.covariance) + along(b.covariance)));
+    }
+
+    return {
+        points,
+        uncertainty: refined.map(({ covariance }) => Math.sqrt(covariance[0] + covariance[2])),
+        sides,
+        sideUncertainty,
+    };
+};
+
+/**
+ * Карта відгуку детектора кутів за градієнтами Собеля розмитого зображення
+ * Тензор структури M = [Σw·gx², Σw·gx·gy; Σw·gx·gy, Σw·gy²] усереднюється гаусовим
+ * вікном: у куті великі обидва власні значення M, на краю - лише одне, у рівній
+ * області - жодне. Харріс оцінює це без власних значень як det M − k·(tr M)²,
+ * Ші–Томасі - безпосередньо меншим власним значенням
+ */
+export const cornerResponse = (
+    data: Float32Array,
+    width: number,
+    height: number,
+    detector: CornerDetector
+): Float32Array => {
+    const { gx, gy } = sobelGradients(gaussianBlur(data, width, height, CORNER_SMOOTHING_SIGMA), width, height);
+    const xx = new Float32Array(width * height);
+    const yy = new Float32Array(width * height);
+    const xy = new Float32Array(width * height);
+
+    for (let i = 0; i < xx.length; i++) {
+        xx[i] = gx[i] * gx[i];
+        yy[i] = gy[i] * gy[i];
+        xy[i] = gx[i] * gy[i];
+    }
+
+    const sxx = gaussianBlur(xx, width, height, CORNER_WINDOW_SIGMA);
+    const syy = gaussianBlur(yy, width, height, CORNER_WINDOW_SIGMA);
+    const sxy = gaussianBlur(xy, width, height, CORNER_WINDOW_SIGMA);
+    const response = new Float32Array(width * height);
+
+    for (let i = 0; i < response.length; i++) {
+        const trace = sxx[i] + syy[i];
+        response[i] = detector === "harris"
+            ? sxx[i] * syy[i] - sxy[i] * sxy[i] - HARRIS_K * trace * trace
+            : trace / 2 - Math.hypot((sxx[i] - syy[i]) / 2, sxy[i]);
+    }
+
+    return response;
+};
+
+/**
+ * Кути - локальні максимуми відгуку, не слабші за частку quality від найсильнішого
+ * (як goodFeaturesToTrack в OpenCV). Кути перебираються від найсильнішого, і кожен
+ * прийнятий закриває коло радіуса CORNER_MIN_DISTANCE; положення уточнюється
+ * до субпікселя вершиною параболи через відгуки сусідніх пікселів
+ * Кути повертаються від найсильнішого до найслабшого
+ */
+export const detectCorners = (response: Float32Array, width: number, height: number, quality: number): Corner[] => {
+    let maxResponse = 0;
+    for (let i = 0; i < response.length; i++) {
+        maxResponse = Math.max(maxResponse, response[i]);
+    }
+    if (maxResponse <= 0) return [];
+
+    const threshold = maxResponse * quality;
+    const candidates: number[] = [];
+
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const index = y * width + x;
+            const value = response[index];
+            if (value < threshold) continue;
+
+            let isMaximum = true;
+            for (let dy = -1; dy <= 1 && isMaximum; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if (response[index + dy * width + dx] > value) {
+                        isMaximum = false;
+                        break;
+                    }
+                }
+            }
+            if (isMaximum) candidates.push(index);
+        }
+    }
+
+    candidates.sort((a, b) => response[b] - response[a]);
+
+    const blocked = new Uint8Array(width * height);
+    const radius = CORNER_MIN_DISTANCE;
+    const corners: Corner[] = [];
+
+    candidates.forEach(index => {
+        if (blocked[index]) return;
+
+        const x = index % width;
+        const y = Math.floor(index / width);
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                const px = x + dx;
+                const py = y + dy;
+                if (px < 0 || py < 0 || px >= width || py >= height || dx * dx + dy * dy > radius * radius) continue;
+                blocked[py * width + px] = 1;
+            }
+        }
+
+        const offset = (before: number, center: number, after: number) => {
+            const curvature = before - 2 * center + after;
+            return curvature < 0 ? Math.max(-0.5, Math.min(0.5, (before - after) / (2 * curvature))) : 0;
+        };
+        corners.push({
+            x: x + offset(response[index - 1], response[index], response[index + 1]),
+            y: y + offset(response[index - width], response[index], response[index + width]),
+            response: response[index],
+        });
+    });
+
+    return corners;
+};
+
+/**
+ * Розподіляє кути між об'єктами: кут належить об'єкту, до зовнішньої межі якого
+ * він найближчий, якщо ця відстань не перевищує CORNER_ASSOCIATION_DISTANCE
+ * Межі перевіряються лише для об'єктів, розширена рамка компоненти яких містить кут
+ * Повертає номер об'єкта для кожного кута (-1 - кут не належить жодному)
+ */
+export const assignCorners = (corners: Point[], contours: Contour[]): number[] => {
+    const limit = CORNER_ASSOCIATION_DISTANCE;
+
+    return corners.map(corner => {
+        let owner = -1;
+        let nearest = limit * limit;
+
+        contours.forEach(({ stats, outer }, index) => {
+            if (corner.x < stats.minX - limit || corner.x > stats.maxX + limit ||
+                corner.y < stats.minY - limit || corner.y > stats.maxY + limit) return;
+
+            outer.forEach(p => {
+                const distance = (p.x - corner.x) ** 2 + (p.y - corner.y) ** 2;
+                if (distance <= nearest) {
+                    nearest = distance;
+                    owner = index;
+                }
+            });
+        });
+
+        return owner;
+    });
+};
+
+/**
+ * Кути одного об'єкта, за якими перевіряється квадрат: не слабші за частку quality
+ * від найсильнішого кута цього об'єкта, віддалені один від одного щонайменше на
+ * CORNER_SPACING_RATIO від side (сторони квадрата тієї ж площі), і не більше чотирьох
+ * найсильніших. Поріг і відстань відносні, тому дрібні об'єкти не програють великим,
+ * а поодинокі слабкі кути на сторонах великих об'єктів не додаються до вершин
+ * corners - кути об'єкта від найсильнішого, як їх повертає detectCorners
+ */
+export const selectObjectCorners = (corners: Corner[], side: number, quality: number): Corner[] => {
+    if (corners.length === 0) return [];
+
+    const threshold = corners[0].response * quality;
+    const spacing = Math.max(CORNER_MIN_DISTANCE, side * CORNER_SPACING_RATIO);
+    const selected: Corner[] = [];
+
+    for (const corner of corners) {
+        if (selected.length === 4 || corner.response < threshold) break;
+        if (selected.some(p => Math.hypot(p.x - corner.x, p.y - corner.y) < spacing)) continue;
+        selected.push(corner);
+    }
+
+    return selected;
+};
+
+/**
+ * Впевненість (0-1), що кути детектора, які належать об'єкту, утворюють квадрат
+ * Кутів має бути рівно чотири (див. selectObjectCorners); чотирикутник з них (вершини впорядковуються за
+ * кутом навколо центру) оцінюється, як полігон межі у squarenessScore, за рівністю
+ * сторін і прямими кутами, а для квадрата в перспективі - після випрямлення гомографією
+ */
+export const cornerSquareScore = (
+    corners: Point[],
+    perspective: boolean,
+    width: number,
+    height: number,
+    reference: Point[] | null
+): number => {
+    if (corners.length !== 4) return 0;
+
+    const cx = corners.reduce((sum, p) => sum + p.x, 0) / 4;
+    const cy = corners.reduce((sum, p) => sum + p.y, 0) / 4;
+    const quad = orderCorners(
+        [...corners].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx))
+    );
+
+    if (perspective) {
+        const estimate = estimatePerspective(quad, width, height, reference);
+        return estimate ? perspectiveScore(estimate) : 0;
+    }
+
+    const { sideRatio, maxAngleDeviation } = analyzePolygon(quad);
+    return Math.min(ramp(sideRatio, 0.6, 1), ramp(maxAngleDeviation, 30, 0));
+};
@@ -0,0 +1,180 @@
+/**
+ * Знайдені об'єкти: квадрати за вершинами, підрахунок за класами та схожість між собою
+ */
+
+import { Point, polygonArea, measurePolygon, analyzePolygon } from "@/lib/geometry";
+import { PerspectiveEstimate } from "@/lib/perspective";
+import { Moments } from "@/lib/moments";
+import { ChainCode } from "@/lib/chainCode";
+import { REFERENCE_SHAPES, ShapeMatch, descriptorSimilarity, ellipticFourierDescriptors } from "@/lib/fourier";
+import { SubpixelCorners } from "@/lib/corners";
+import { ShapeClass, SHAPE_CLASSES } from "@/lib/shapes";
+
+// Сума відносної різниці φ1 та різниці витягнутості, за якої схожість моментів дорівнює 0.5
+export const HU_DISTANCE_SCALE = 0.05;
+
+/**
+ * Об'єкт для таблиці результатів
+ * color - hex-колір кластера (лише в режимі кольорової сегментації)
+ * vertexCount, sideRatio, maxAngleDeviation - характеристики спрощеного полігона межі
+ * sides, angles - довжини сторін та внутрішні кути (у градусах) чотирикутника
+ * або трикутника, яким наближено об'єкт, чи спрощеного полігона многокутника; порожні для інших фігур
+ * quad - вершини чотирикутника, яким наближено об'єкт, perspective - оцінка його перспективи
+ * corners - субпіксельні вершини (лише для квадратів, у тому числі в перспективі)
+ * perimeter - оцінка довжини всіх меж, chainCodes - їхні ланцюгові коди Фрімена
+ * confidence - впевненість (0-1), що об'єкт - квадрат (для квадратів у перспективі - після випрямлення)
+ * normalizedMoments, huMoments - нормовані центральні моменти та сім інваріантів Ху
+ * (null для квадратів, знайдених за краями)
+ * outline - зовнішня межа (для квадратів, знайдених за краями, - їхні вершини)
+ * cornerPoints - до чотирьох найсильніших кутів детектора біля зовнішньої межі (null, якщо кути не шукались)
+ * fourier - еліптичні дескриптори Фур'є зовнішньої межі, match - найсхожіша еталонна
+ * фігура (null, якщо схожість нижча за MIN_MATCH_SIMILARITY)
+ * outlined - контурна фігура (лише обведення, всередині пустота)
+ * depth, parentId - глибина вкладеності та номер об'єкта, у пустоті якого лежить цей
+ * split - об'єкт відокремлено вододілом від фігури, якої він торкався
+ */
+export interface DetectedObject {
+    id: number;
+    center: Point;
+    area: number;
+    color: string | null;
+    shapeClass: ShapeClass;
+    confidence: number;
+    vertexCount: number;
+    sideRatio: number;
+    maxAngleDeviation: number;
+    angle: number;
+    sides: number[];
+    angles: number[];
+    quad: Point[] | null;
+    perspective: PerspectiveEstimate | null;
+    corners: SubpixelCorners | null;
+    perimeter: number;
+    chainCodes: ChainCode[];
+    normalizedMoments: Moments | null;
+    huMoments: number[] | null;
+    outline: Point[];
+    cornerPoints: Point[] | null;
+    fourier: number[];
+    match: ShapeMatch | null;
+    outlined: boolean;
+    depth: number;
+    parentId: number | null;
+    split: boolean;
+}
+
+/**
+ * Фрагменти вирізаються лише для квадратів (у тому числі в перспективі) з відомими вершинами
+ */
+export const isCroppable = (object: DetectedObject): boolean =>
+    object.quad !== null && (object.shapeClass === "square" || object.shapeClass === "perspectiveSquare");
+
+/**
+ * Схожість форм двох об'єктів (0-1) незалежно від розміру та повороту
+ * Мінімум зі схожості дескрипторів Фур'є межі та схожості інваріантів Ху області:
+ * розподілу маси навколо центру (φ1) і витягнутості √φ2 / φ1. Моменти доповнюють межу
+ * для контурних фігур і фігур з шумною межею; без моментів (квадрати за краями)
+ * порівнюються лише дескриптори
+ */
+export const shapeSimilarity = (a: DetectedObject, b: DetectedObject): number => {
+    const fourier = descriptorSimilarity(a.fourier, b.fourier);
+    if (!a.huMoments || !b.huMoments) return fourier;
+
+    const [phi1A, phi2A] = a.huMoments;
+    const [phi1B, phi2B] = b.huMoments;
+    const spread = Math.abs(phi1A - phi1B) / Math.max(phi1A, phi1B);
+    const elongation = Math.abs(Math.sqrt(phi2A) / phi1A - Math.sqrt(phi2B) / phi1B);
+    return Math.min(fourier, 1 / (1 + (spread + elongation) / HU_DISTANCE_SCALE));
+};
+
+/**
+ * Підраховує кількість об'єктів кожного класу
+ */
+export const countShapeClasses = (objects: DetectedObject[]): Record<ShapeClass, number> => {
+    const counts = Object.fromEntries(
+        (Object.keys(SHAPE_CLASSES) as ShapeClass[]).map(shapeClass => [shapeClass, 0])
+    ) as Record<ShapeClass, number>;
+    objects.forEach(object => counts[object.shapeClass]++);
+    return counts;
+};
+
+/**
+ * Форматує кількість об'єктів за класами: "квадрати: 2, прямокутники: 1, ..."
+ * Класи без жодного об'єкта пропускаються
+ */
+export const formatClassCounts = (counts: Record<ShapeClass, number>): string => {
+    const parts = (Object.keys(SHAPE_CLASSES) as ShapeClass[])
+        .filter(shapeClass => counts[shapeClass] > 0)
+        .map(shapeClass => `${SHAPE_CLASSES[shapeClass].plural}: ${counts[shapeClass]}`);
+    return parts.length > 0 ? parts.join(", ") : "об'єктів не знайдено";
+};
+
+/**
+ * Форматує кількість збігів з кожною еталонною фігурою: "Шестикутник: 2, ..."
+ */
+export const formatMatchCounts = (objects: DetectedObject[]): string => {
+    const parts = REFERENCE_SHAPES
+        .map(reference => [reference.name, objects.filter(object => object.match?.reference === reference).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([name, count]) => `${name}: ${count}`);
+    return parts.length > 0 ? parts.join(", ") : "немає";
+};
+
+/**
+ * Об'єкти, схожі на зразок не менше ніж на threshold, від найсхожішого
+ */
+export const findSimilarObjects = (query: DetectedObject, objects: DetectedObject[], threshold: number) =>
+    objects
+        .filter(object => object.id !== query.id)
+        .map(object => ({ object, similarity: shapeSimilarity(query, object) }))
+        .filter(({ similarity }) => similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity);
+
+/**
+ * Квадрат, заданий лише вершинами (знайдений за краями або шаблоном, без зв'язної
+ * компоненти): центр, площа, сторони, кути та дескриптори Фур'є рахуються за вершинами,
+ * моментів і ланцюгових кодів немає
+ * corners - субпіксельні вершини, якщо їх уточнено
+ */
+export const squareFromCorners = (
+    id: number,
+    quad: Point[],
+    confidence: number,
+    corners: SubpixelCorners | null
+): DetectedObject => {
+    const center = {
+        x: Math.round(quad.reduce((sum, p) => sum + p.x, 0) / 4),
+        y: Math.round(quad.reduce((sum, p) => sum + p.y, 0) / 4),
+    };
+    const angle = Math.atan2(quad[1].y - quad[0].y, quad[1].x - quad[0].x) * 180 / Math.PI;
+    const { sides, angles } = measurePolygon(quad);
+
+    return {
+        id,
+        center,
+        area: Math.round(polygonArea(quad)),
+        color: null,
+        shapeClass: "square",
+        confidence,
+        vertexCount: 4,
+        ...analyzePolygon(quad),
+        angle: ((angle % 90) + 90) % 90,
+        sides,
+        angles,
+        quad,
+        perspective: null,
+        corners,
+        perimeter: sides.reduce((sum, side) => sum + side, 0),
+        chainCodes: [],
+        normalizedMoments: null,
+        huMoments: null,
+        outline: quad,
+        cornerPoints: null,
+        fourier: ellipticFourierDescriptors(quad),
+        match: null,
+        outlined: false,
+        depth: 0,
+        parentId: null,
+        split: false,
+    };
+};
@@ -0,0 +1,60 @@
+/**
+ * Маркери, контури та підписи на обробленому зображенні
+ */
+
+import { Point } from "@/lib/geometry";
+import { SHAPE_CLASSES } from "@/lib/shapes";
+import { DetectedObject } from "@/lib/detection";
+
+/**
+ * Підписує впевненість праворуч від маркера дрібнішим шрифтом
+ * Якщо задано колір обведення, підпис обводиться ним, як і сам маркер
+ */
+export const drawConfidence = (
+    ctx: CanvasRenderingContext2D,
+    marker: string,
+    confidence: number,
+    position: Point,
+    fontSize: number,
+    fill: string,
+    stroke: string | null
+) => {
+    ctx.font = `bold ${fontSize}px Arial`;
+    const x = position.x + ctx.measureText(marker).width / 2 + 4;
+    const labelSize = Math.max(12, Math.round(fontSize * 0.4));
+    const label = confidence.toFixed(2);
+
+    ctx.font = `bold ${labelSize}px Arial`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    if (stroke) {
+        ctx.strokeStyle = stroke;
+        ctx.lineWidth = Math.max(2, labelSize / 10);
+        ctx.strokeText(label, x, position.y);
+    }
+    ctx.fillStyle = fill;
+    ctx.fillText(label, x, position.y);
+};
+
+/**
+ * Обводить квадрат, заданий вершинами (outline), і ставить у його центрі маркер
+ * з підписом впевненості; розмір маркера залежить від площі
+ */
+export const drawSquare = (ctx: CanvasRenderingContext2D, object: DetectedObject) => {
+    const { marker, color } = SHAPE_CLASSES[object.shapeClass];
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    object.outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    ctx.stroke();
+
+    const fontSize = Math.max(20, Math.min(Math.sqrt(object.area) * 0.6, 150));
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = color;
+    ctx.fillText(marker, object.center.x, object.center.y);
+    drawConfidence(ctx, marker, object.confidence, object.center, fontSize, color, null);
+};
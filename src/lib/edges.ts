@@ -0,0 +1,446 @@
+/**
+ * Пошук квадратів за краями: Собель, Canny, перетворення Хафа та четвірки прямих
+ */
+
+import { Point, MOORE_DIRECTIONS, measurePolygon, analyzePolygon } from "@/lib/geometry";
+import { gaussianBlur } from "@/lib/filters";
+
+/**
+ * Пряма у нормальній формі x·cosθ + y·sinθ = ρ, знайдена перетворенням Хафа
+ * theta - кут нормалі у градусах, votes - кількість крайових пікселів, що за неї проголосували
+ */
+export interface HoughLine {
+    theta: number;
+    rho: number;
+    votes: number;
+}
+
+// Параметр розмиття Гаусса перед пошуком країв Canny
+export const CANNY_SIGMA = 1.4;
+
+// Крайовий піксель голосує лише за прямі, нормаль яких відхиляється від його градієнта не більше ніж на стільки градусів
+export const HOUGH_ANGLE_TOLERANCE = 5;
+
+// Найбільша кількість прямих (найсильніших піків акумулятора), з яких складаються квадрати
+export const HOUGH_MAX_LINES = 150;
+
+// Допуски для четвірок прямих: паралельність та перпендикулярність (у градусах), різниця сторін (частка)
+export const PARALLEL_TOLERANCE = 3;
+
+export const PERPENDICULAR_TOLERANCE = 5;
+
+export const SIDE_TOLERANCE = 0.15;
+
+// Яка частина кожної сторони квадрата має лежати на знайдених краях
+export const EDGE_SUPPORT_RATIO = 0.75;
+
+/**
+ * Градієнти яскравості оператором Собеля (3×3),
+ * за межами зображення повторюються крайові пікселі
+ */
+export const sobelGradients = (data: Float32Array, width: number, height: number) => {
+    const gx = new Float32Array(width * height);
+    const gy = new Float32Array(width * height);
+    const magnitude = new Float32Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        const up = Math.max(0, y - 1) * width;
+        const row = y * width;
+        const down = Math.min(height - 1, y + 1) * width;
+
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(0, x - 1);
+            const right = Math.min(width - 1, x + 1);
+
+            const dx = (data[up + right] + 2 * data[row + right] + data[down + right])
+                - (data[up + left] + 2 * data[row + left] + data[down + left]);
+            const dy = (data[down + left] + 2 * data[down + x] + data[down + right])
+                - (data[up + left] + 2 * data[up + x] + data[up + right]);
+
+            gx[row + x] = dx;
+            gy[row + x] = dy;
+            magnitude[row + x] = Math.hypot(dx, dy);
+        }
+    }
+
+    return { gx, gy, magnitude };
+};
+
+/**
+ * Детектор країв Canny: розмиття Гаусса, градієнти Собеля, придушення
+ * немаксимумів уздовж напрямку градієнта та гістерезис з двома порогами -
+ * слабкі краї залишаються, лише якщо вони зв'язані із сильними
+ * Повертає карту країв (255 - край) та градієнти для перетворення Хафа
+ */
+export const cannyEdges = (
+    grayData: Uint8ClampedArray,
+    width: number,
+    height: number,
+    low: number,
+    high: number
+) => {
+    const smoothed = gaussianBlur(Float32Array.from(grayData), width, height, CANNY_SIGMA);
+    const { gx, gy, magnitude } = sobelGradients(smoothed, width, height);
+
+    // Придушення немаксимумів: напрямок градієнта округлюється до 0°, 45°, 90° або 135°,
+    // піксель залишається, якщо він не слабший за обох сусідів уздовж цього напрямку
+    const thin = new Float32Array(width * height);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const idx = y * width + x;
+            const m = magnitude[idx];
+            if (m < low) continue;
+
+            let direction = Math.atan2(gy[idx], gx[idx]) * 180 / Math.PI;
+            if (direction < 0) direction += 180;
+
+            let offset: number;
+            if (direction < 22.5 || direction >= 157.5) offset = 1;
+            else if (direction < 67.5) offset = width + 1;
+            else if (direction < 112.5) offset = width;
+            else offset = width - 1;
+
+            if (m >= magnitude[idx - offset] && m > magnitude[idx + offset]) thin[idx] = m;
+        }
+    }
+
+    // Гістерезис: поширення від сильних країв через 8-зв'язних слабких сусідів
+    const edges = new Uint8ClampedArray(width * height);
+    const stack: number[] = [];
+    for (let i = 0; i < thin.length; i++) {
+        if (thin[i] >= high) {
+            edges[i] = 255;
+            stack.push(i);
+        }
+    }
+
+    while (stack.length > 0) {
+        const idx = stack.pop()!;
+        const x = idx % width;
+        const y = (idx - x) / width;
+
+        for (const [dx, dy] of MOORE_DIRECTIONS) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+            const n = ny * width + nx;
+            if (edges[n] === 0 && thin[n] >= low) {
+                edges[n] = 255;
+                stack.push(n);
+            }
+        }
+    }
+
+    return { edges, gx, gy };
+};
+
+/**
+ * Перетворення Хафа для прямих з кроком 1° за θ та 1 піксель за ρ
+ * Кожен крайовий піксель голосує лише за кути поблизу напрямку свого градієнта,
+ * що зменшує шум акумулятора. Прямі - локальні максимуми у вікні 5×5
+ * (θ циклічний: θ та θ + 180° з протилежним ρ - та сама пряма),
+ * відсортовані за кількістю голосів та уточнені методом найменших квадратів
+ * minVotes - найменша кількість голосів піка (приблизно довжина підтвердженої краями
+ * частини прямої в пікселях)
+ */
+export const houghLines = (
+    edges: Uint8ClampedArray,
+    gx: Float32Array,
+    gy: Float32Array,
+    width: number,
+    height: number,
+    minVotes: number
+): HoughLine[] => {
+    const diagonal = Math.ceil(Math.hypot(width, height));
+    const rhoCount = diagonal * 2 + 1;
+    const accumulator = new Uint32Array(180 * rhoCount);
+
+    const cos = new Float64Array(180);
+    const sin = new Float64Array(180);
+    for (let t = 0; t < 180; t++) {
+        cos[t] = Math.cos(t * Math.PI / 180);
+        sin[t] = Math.sin(t * Math.PI / 180);
+    }
+
+    for (let idx = 0; idx < edges.length; idx++) {
+        if (edges[idx] !== 255) continue;
+        const x = idx % width;
+        const y = (idx - x) / width;
+
+        const normal = Math.round(Math.atan2(gy[idx], gx[idx]) * 180 / Math.PI);
+        for (let d = -HOUGH_ANGLE_TOLERANCE; d <= HOUGH_ANGLE_TOLERANCE; d++) {
+            const t = (((normal + d) % 180) + 180) % 180;
+            const rho = Math.round(x * cos[t] + y * sin[t]);
+            accumulator[t * rhoCount + rho + diagonal]++;
+        }
+    }
+
+    const lines: HoughLine[] = [];
+    for (let t = 0; t < 180; t++) {
+        for (let r = 0; r < rhoCount; r++) {
+            const index = t * rhoCount + r;
+            const votes = accumulator[index];
+            if (votes < minVotes) continue;
+
+            let isPeak = true;
+            for (let dt = -2; dt <= 2 && isPeak; dt++) {
+                let nt = t + dt;
+                let center = r;
+
+                // Перехід через 0°/180° віддзеркалює ρ
+                if (nt < 0 || nt >= 180) {
+                    nt = (nt + 180) % 180;
+                    center = rhoCount - 1 - r;
+                }
+
+                for (let dr = -2; dr <= 2; dr++) {
+                    const nr = center + dr;
+                    if (nr < 0 || nr >= rhoCount) continue;
+
+                    const neighbor = nt * rhoCount + nr;
+                    if (neighbor === index) continue;
+
+                    // При рівних голосах пік залишається лише в першій з комірок
+                    const v = accumulator[neighbor];
+                    if (v > votes || (v === votes && neighbor < index)) {
+                        isPeak = false;
+                        break;
+                    }
+                }
+            }
+
+            if (isPeak) lines.push({ theta: t, rho: r - diagonal, votes });
+        }
+    }
+
+    const edgePixels: number[] = [];
+    for (let idx = 0; idx < edges.length; idx++) {
+        if (edges[idx] === 255) edgePixels.push(idx);
+    }
+
+    // Сусідні піки однієї товстої межі після уточнення збігаються - залишається найсильніший
+    const refined: HoughLine[] = [];
+    lines
+        .sort((a, b) => b.votes - a.votes)
+        .slice(0, HOUGH_MAX_LINES)
+        .forEach(line => {
+            const candidate = refineLine(line, edgePixels, gx, gy, width);
+            const duplicate = refined.some(other =>
+                Math.abs(other.theta - candidate.theta) < 0.5 && Math.abs(other.rho - candidate.rho) < 1
+            );
+            if (!duplicate) refined.push(candidate);
+        });
+
+    return refined;
+};
+
+/**
+ * Уточнює пряму Хафа за крайовими пікселями, що лежать не далі 2 пікселів від неї
+ * і мають градієнт, близький до її нормалі. Дискретний акумулятор на межах
+ * товщиною у 2 пікселі може нахилити пряму на кілька градусів, тому нормаль
+ * перераховується як головна вісь найменшого розкиду точок (метод головних компонент)
+ */
+export const refineLine = (
+    line: HoughLine,
+    edgePixels: number[],
+    gx: Float32Array,
+    gy: Float32Array,
+    width: number
+): HoughLine => {
+    const cos = Math.cos(line.theta * Math.PI / 180);
+    const sin = Math.sin(line.theta * Math.PI / 180);
+    const minAlignment = Math.cos(HOUGH_ANGLE_TOLERANCE * Math.PI / 180);
+
+    let n = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sumXX = 0;
+    let sumYY = 0;
+    let sumXY = 0;
+
+    edgePixels.forEach(idx => {
+        const x = idx % width;
+        const y = (idx - x) / width;
+        if (Math.abs(x * cos + y * sin - line.rho) > 2) return;
+        if (Math.abs(gx[idx] * cos + gy[idx] * sin) < minAlignment * Math.hypot(gx[idx], gy[idx])) return;
+
+        n++;
+        sumX += x;
+        sumY += y;
+        sumXX += x * x;
+        sumYY += y * y;
+        sumXY += x * y;
+    });
+
+    if (n < 2) return line;
+
+    const meanX = sumX / n;
+    const meanY = sumY / n;
+    const covXX = sumXX / n - meanX * meanX;
+    const covYY = sumYY / n - meanY * meanY;
+    const covXY = sumXY / n - meanX * meanY;
+
+    // Напрямок прямої - головна вісь коваріації, нормаль перпендикулярна до неї
+    let theta = 0.5 * Math.atan2(2 * covXY, covXX - covYY) * 180 / Math.PI + 90;
+    theta = ((theta % 180) + 180) % 180;
+    const rho = meanX * Math.cos(theta * Math.PI / 180) + meanY * Math.sin(theta * Math.PI / 180);
+
+    return { theta, rho, votes: line.votes };
+};
+
+/**
+ * Точка перетину двох прямих у нормальній формі (null для паралельних)
+ */
+export const intersectLines = (a: HoughLine, b: HoughLine): Point | null => {
+    const ta = a.theta * Math.PI / 180;
+    const tb = b.theta * Math.PI / 180;
+    const det = Math.sin(tb - ta);
+    if (Math.abs(det) < 1e-6) return null;
+
+    return {
+        x: (a.rho * Math.sin(tb) - b.rho * Math.sin(ta)) / det,
+        y: (b.rho * Math.cos(ta) - a.rho * Math.cos(tb)) / det,
+    };
+};
+
+/**
+ * Частка точок відрізка, поруч з якими (у межах 1 пікселя) є край
+ */
+export const edgeSupport = (from: Point, to: Point, edges: Uint8ClampedArray, width: number, height: number): number => {
+    const steps = Math.max(1, Math.round(Math.hypot(to.x - from.x, to.y - from.y)));
+    let hits = 0;
+
+    for (let s = 0; s <= steps; s++) {
+        const x = Math.round(from.x + (to.x - from.x) * s / steps);
+        const y = Math.round(from.y + (to.y - from.y) * s / steps);
+
+        let hit = false;
+        for (let dy = -1; dy <= 1 && !hit; dy++) {
+            for (let dx = -1; dx <= 1 && !hit; dx++) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx >= 0 && nx < width && ny >= 0 && ny < height && edges[ny * width + nx] === 255) {
+                    hit = true;
+                }
+            }
+        }
+        if (hit) hits++;
+    }
+
+    return hits / (steps + 1);
+};
+
+/**
+ * Складає квадрати з прямих Хафа: дві пари паралельних прямих, пари взаємно
+ * перпендикулярні. Вершини - перетини прямих; чотирикутник приймається, якщо його
+ * сторони рівні, кути прямі, а кожна сторона лежить на карті країв, інакше четвірка випадкова
+ * (наприклад, сторони різних фігур на одній прямій). З кандидатів, центри яких
+ * ближчі за половину сторони, залишається той, що найкраще підтверджений краями
+ * Щоб не перебирати всі пари пар прямих, прямі та пари розкладаються в кошики за кутом
+ * нормалі (по 1°): парна пряма шукається лише в сусідніх кошиках, перпендикулярна пара -
+ * у кошиках біля θ + 90°. Пари, відстань між прямими яких менша за найменшу сторону,
+ * та пари пар з надто різною відстанню відкидаються до обчислення перетинів
+ * Повертає вершини квадратів, впорядковані обходом по периметру, та частку
+ * найгірше підтвердженої сторони, що лежить на краях
+ */
+export const findSquaresFromLines = (
+    lines: HoughLine[],
+    edges: Uint8ClampedArray,
+    width: number,
+    height: number,
+    minSide: number
+): { corners: Point[]; support: number }[] => {
+    // Номер кошика (0-179) для кута нормалі, кут зводиться до [0°, 180°)
+    const bucketOf = (theta: number) => ((Math.round(theta) % 180) + 180) % 180;
+    const buildBuckets = (thetas: number[]) => {
+        const buckets: number[][] = Array.from({ length: 180 }, () => []);
+        thetas.forEach((theta, index) => buckets[bucketOf(theta)].push(index));
+        return buckets;
+    };
+    // Номери з кошиків у межах tolerance від кута (з запасом на округлення), більші за after
+    const nearby = (buckets: number[][], theta: number, tolerance: number, after: number): number[] => {
+        const result: number[] = [];
+        const reach = Math.ceil(tolerance) + 1;
+        for (let d = -reach; d <= reach; d++) {
+            buckets[bucketOf(theta + d)].forEach(index => {
+                if (index > after) result.push(index);
+            });
+        }
+        return result;
+    };
+
+    // Пари паралельних прямих; друга пряма за потреби переписується як (θ ± 180°, −ρ),
+    // щоб прямі поблизу 0° та 180° мали близькі кути
+    const lineBuckets = buildBuckets(lines.map(line => line.theta));
+    const pairs: { lines: [HoughLine, HoughLine]; theta: number; spacing: number }[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        nearby(lineBuckets, lines[i].theta, PARALLEL_TOLERANCE, i).forEach(j => {
+            const a = lines[i];
+            let b = lines[j];
+            if (b.theta - a.theta > 90) b = { ...b, theta: b.theta - 180, rho: -b.rho };
+            else if (a.theta - b.theta > 90) b = { ...b, theta: b.theta + 180, rho: -b.rho };
+
+            if (Math.abs(a.theta - b.theta) > PARALLEL_TOLERANCE) return;
+
+            // Відстань між паралельними сторонами квадрата дорівнює його стороні
+            const spacing = Math.abs(a.rho - b.rho);
+            if (spacing < minSide * (1 - SIDE_TOLERANCE)) return;
+
+            pairs.push({ lines: [a, b], theta: (a.theta + b.theta) / 2, spacing });
+        });
+    }
+
+    const pairBuckets = buildBuckets(pairs.map(pair => pair.theta));
+    const candidates: { corners: Point[]; center: Point; side: number; support: number }[] = [];
+    for (let i = 0; i < pairs.length; i++) {
+        for (const j of nearby(pairBuckets, pairs[i].theta + 90, PERPENDICULAR_TOLERANCE, i)) {
+            const a = pairs[i];
+            const b = pairs[j];
+
+            const between = Math.abs(a.theta - b.theta) % 180;
+            if (Math.abs(between - 90) > PERPENDICULAR_TOLERANCE) continue;
+            if (Math.min(a.spacing, b.spacing) < Math.max(a.spacing, b.spacing) * (1 - SIDE_TOLERANCE)) continue;
+
+            const corners = [
+                intersectLines(a.lines[0], b.lines[0]),
+                intersectLines(a.lines[0], b.lines[1]),
+                intersectLines(a.lines[1], b.lines[1]),
+                intersectLines(a.lines[1], b.lines[0]),
+            ];
+            if (corners.some(p => !p || p.x < 0 || p.x >= width || p.y < 0 || p.y >= height)) continue;
+            const quad = corners as Point[];
+
+            const { sides } = measurePolygon(quad);
+            const side = sides.reduce((sum, length) => sum + length, 0) / 4;
+            const { sideRatio, maxAngleDeviation } = analyzePolygon(quad);
+            if (side < minSide || sideRatio < 1 - SIDE_TOLERANCE || maxAngleDeviation > PERPENDICULAR_TOLERANCE) continue;
+
+            const support = Math.min(...quad.map((p, k) => edgeSupport(p, quad[(k + 1) % 4], edges, width, height)));
+            if (support < EDGE_SUPPORT_RATIO) continue;
+
+            candidates.push({
+                corners: quad,
+                center: {
+                    x: quad.reduce((sum, p) => sum + p.x, 0) / 4,
+                    y: quad.reduce((sum, p) => sum + p.y, 0) / 4,
+                },
+                side,
+                support,
+            });
+        }
+    }
+
+    // Придушення немаксимумів серед квадратів з близькими центрами
+    candidates.sort((a, b) => b.support - a.support || b.side - a.side);
+    const accepted: typeof candidates = [];
+    candidates.forEach(candidate => {
+        const overlaps = accepted.some(other =>
+            Math.hypot(other.center.x - candidate.center.x, other.center.y - candidate.center.y)
+                < Math.min(other.side, candidate.side) / 2
+        );
+        if (!overlaps) accepted.push(candidate);
+    });
+
+    return accepted.map(({ corners, support }) => ({ corners, support }));
+};
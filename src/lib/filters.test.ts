@@ -0,0 +1,93 @@
+/**
+ * Фільтри придушення шуму проти прямих обчислень і на сходинці яскравості
+ */
+
+import { describe, expect, it } from "vitest";
+import { gaussianBlur, medianFilter, bilateralFilter, denoise } from "@/lib/filters";
+
+const WIDTH = 32;
+const HEIGHT = 24;
+
+/**
+ * Зображення з псевдовипадковим шумом (детермінований генератор Лемера)
+ */
+const noiseImage = (seed: number) =>
+    Uint8ClampedArray.from({ length: WIDTH * HEIGHT }, () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed % 256;
+    });
+
+/**
+ * Сходинка: ліва половина темна, права світла, з шумом амплітуди ±noise
+ */
+const noisyStep = (noise: number) => {
+    const random = noiseImage(7);
+    return Uint8ClampedArray.from({ length: WIDTH * HEIGHT }, (_, i) =>
+        (i % WIDTH < WIDTH / 2 ? 60 : 190) + Math.round((random[i] / 255 - 0.5) * 2 * noise));
+};
+
+const standardDeviation = (values: number[]) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+describe("gaussianBlur", () => {
+    it("keeps a constant image and the total of an impulse away from the border", () => {
+        expect(gaussianBlur(new Float32Array(WIDTH * HEIGHT).fill(42), WIDTH, HEIGHT, 2)
+            .every(v => Math.abs(v - 42) < 1e-4)).toBe(true);
+
+        const impulse = new Float32Array(WIDTH * HEIGHT);
+        impulse[12 * WIDTH + 16] = 1000;
+        const blurred = gaussianBlur(impulse, WIDTH, HEIGHT, 1.5);
+        expect(blurred.reduce((sum, v) => sum + v, 0)).toBeCloseTo(1000, 1);
+        expect(blurred[12 * WIDTH + 17]).toBeCloseTo(blurred[13 * WIDTH + 16], 4);
+        expect(blurred[12 * WIDTH + 16]).toBeGreaterThan(blurred[12 * WIDTH + 17]);
+    });
+});
+
+describe("medianFilter", () => {
+    it("matches the median of each clamped window", () => {
+        const image = noiseImage(3);
+        for (const radius of [1, 2]) {
+            const filtered = medianFilter(image, WIDTH, HEIGHT, radius);
+            image.forEach((_, idx) => {
+                const x = idx % WIDTH;
+                const y = Math.floor(idx / WIDTH);
+                const window: number[] = [];
+                for (let dy = -radius; dy <= radius; dy++) {
+                    for (let dx = -radius; dx <= radius; dx++) {
+                        const nx = Math.min(WIDTH - 1, Math.max(0, x + dx));
+                        const ny = Math.min(HEIGHT - 1, Math.max(0, y + dy));
+                        window.push(image[ny * WIDTH + nx]);
+                    }
+                }
+                window.sort((a, b) => a - b);
+                expect(filtered[idx]).toBe(window[Math.floor(window.length / 2)]);
+            });
+        }
+    });
+});
+
+describe("bilateralFilter", () => {
+    it("smooths noise on both sides of an edge without blurring it", () => {
+        const image = noisyStep(20);
+        const filtered = bilateralFilter(image, WIDTH, HEIGHT, 2, 30);
+        const side = (data: Uint8ClampedArray, left: boolean) =>
+            Array.from(data).filter((_, i) => (i % WIDTH < WIDTH / 2) === left);
+
+        for (const left of [true, false]) {
+            expect(standardDeviation(side(filtered, left))).toBeLessThan(standardDeviation(side(image, left)) / 2);
+        }
+        for (let y = 0; y < HEIGHT; y++) {
+            expect(filtered[y * WIDTH + WIDTH / 2 - 1]).toBeLessThan(100);
+            expect(filtered[y * WIDTH + WIDTH / 2]).toBeGreaterThan(150);
+        }
+    });
+});
+
+describe("denoise", () => {
+    it("returns the input unchanged without a filter", () => {
+        const image = noiseImage(5);
+        expect(denoise(image, WIDTH, HEIGHT, "none", 1, 3, 30)).toBe(image);
+    });
+});
@@ -0,0 +1,188 @@
+/**
+ * Фільтри придушення шуму для зображення у відтінках сірого
+ */
+
+/**
+ * Фільтр придушення шуму, що застосовується до зображення у відтінках сірого
+ */
+export type DenoiseFilter = "none" | "gaussian" | "median" | "bilateral";
+
+export const DENOISE_FILTER_LABELS: Record<DenoiseFilter, string> = {
+    none: "Без фільтрації",
+    gaussian: "Розмиття Гаусса",
+    median: "Медіанний фільтр",
+    bilateral: "Білатеральний фільтр",
+};
+
+/**
+ * Розмиття Гаусса, розкладене на горизонтальний та вертикальний проходи
+ * (O(пікселі × радіус) замість O(пікселі × радіус²)). Радіус ядра - 3σ,
+ * за межами зображення повторюються крайові пікселі
+ */
+export const gaussianBlur = (data: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+    const radius = Math.max(1, Math.ceil(sigma * 3));
+    const kernel = new Float32Array(radius * 2 + 1);
+    let kernelSum = 0;
+    for (let i = -radius; i <= radius; i++) {
+        kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+        kernelSum += kernel[i + radius];
+    }
+    for (let i = 0; i < kernel.length; i++) kernel[i] /= kernelSum;
+
+    const horizontal = new Float32Array(data.length);
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        for (let x = 0; x < width; x++) {
+            let acc = 0;
+            for (let i = -radius; i <= radius; i++) {
+                const nx = Math.min(width - 1, Math.max(0, x + i));
+                acc += data[row + nx] * kernel[i + radius];
+            }
+            horizontal[row + x] = acc;
+        }
+    }
+
+    const result = new Float32Array(data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let acc = 0;
+            for (let i = -radius; i <= radius; i++) {
+                const ny = Math.min(height - 1, Math.max(0, y + i));
+                acc += horizontal[ny * width + x] * kernel[i + radius];
+            }
+            result[y * width + x] = acc;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Медіанний фільтр за алгоритмом Хуанга
+ * Гістограма вікна оновлюється ковзанням уздовж рядка (додається новий стовпець,
+ * видаляється старий), а медіана відстежується лічильником пікселів нижче неї,
+ * тому вартість на піксель - O(радіус), а не O(радіус² log радіус)
+ */
+export const medianFilter = (grayData: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    const result = new Uint8ClampedArray(grayData.length);
+    const histogram = new Int32Array(256);
+    const clampX = (x: number) => Math.min(width - 1, Math.max(0, x));
+    const clampY = (y: number) => Math.min(height - 1, Math.max(0, y));
+    const half = Math.floor(((radius * 2 + 1) ** 2) / 2);
+
+    for (let y = 0; y < height; y++) {
+        histogram.fill(0);
+        for (let dy = -radius; dy <= radius; dy++) {
+            const row = clampY(y + dy) * width;
+            for (let dx = -radius; dx <= radius; dx++) {
+                histogram[grayData[row + clampX(dx)]]++;
+            }
+        }
+
+        // Медіана та кількість пікселів, строго менших за неї
+        let medianValue = 0;
+        let below = 0;
+        while (below + histogram[medianValue] <= half) {
+            below += histogram[medianValue];
+            medianValue++;
+        }
+        result[y * width] = medianValue;
+
+        for (let x = 1; x < width; x++) {
+            const removeX = clampX(x - radius - 1);
+            const addX = clampX(x + radius);
+            for (let dy = -radius; dy <= radius; dy++) {
+                const row = clampY(y + dy) * width;
+                const removed = grayData[row + removeX];
+                const added = grayData[row + addX];
+                histogram[removed]--;
+                if (removed < medianValue) below--;
+                histogram[added]++;
+                if (added < medianValue) below++;
+            }
+
+            // Зсуваємо медіану, доки половина пікселів не опиниться нижче неї
+            while (below > half) {
+                medianValue--;
+                below -= histogram[medianValue];
+            }
+            while (below + histogram[medianValue] <= half) {
+                below += histogram[medianValue];
+                medianValue++;
+            }
+
+            result[y * width + x] = medianValue;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Білатеральний фільтр у кусково-лінійному наближенні (Durand–Dorsey)
+ * Діапазон яскравостей ділиться на рівні з кроком σr; для кожного рівня зображення
+ * зважується за близькістю яскравості до рівня і розмивається сепарабельним Гауссом.
+ * Результат пікселя - лінійна інтерполяція між двома найближчими рівнями.
+ * Згладжує шум, зберігаючи різкі краї фігур
+ */
+export const bilateralFilter = (
+    grayData: Uint8ClampedArray,
+    width: number,
+    height: number,
+    spatialSigma: number,
+    rangeSigma: number
+): Uint8ClampedArray => {
+    const levels = Math.max(2, Math.ceil(255 / rangeSigma) + 1);
+    const step = 255 / (levels - 1);
+    const weights = new Float32Array(grayData.length);
+    const weighted = new Float32Array(grayData.length);
+    const accumulated = new Float32Array(grayData.length);
+
+    for (let level = 0; level < levels; level++) {
+        const intensity = level * step;
+        for (let i = 0; i < grayData.length; i++) {
+            const diff = grayData[i] - intensity;
+            weights[i] = Math.exp(-(diff * diff) / (2 * rangeSigma * rangeSigma));
+            weighted[i] = weights[i] * grayData[i];
+        }
+
+        const blurredWeights = gaussianBlur(weights, width, height, spatialSigma);
+        const blurredWeighted = gaussianBlur(weighted, width, height, spatialSigma);
+
+        for (let i = 0; i < grayData.length; i++) {
+            // Внесок рівня - "капелюшна" функція відстані яскравості пікселя до рівня
+            const factor = 1 - Math.abs(grayData[i] - intensity) / step;
+            if (factor <= 0) continue;
+            const value = blurredWeights[i] > 1e-6 ? blurredWeighted[i] / blurredWeights[i] : grayData[i];
+            accumulated[i] += factor * value;
+        }
+    }
+
+    return Uint8ClampedArray.from(accumulated);
+};
+
+/**
+ * Придушує шум вибраним фільтром; для "none" повертає вхідні дані без змін
+ * sigma - σ Гаусса (для білатерального - просторова σs), median - розмір вікна
+ * медіанного фільтра (зводиться до непарного), range - σr білатерального фільтра
+ */
+export const denoise = (
+    grayData: Uint8ClampedArray,
+    width: number,
+    height: number,
+    filter: DenoiseFilter,
+    sigma: number,
+    median: number,
+    range: number
+): Uint8ClampedArray => {
+    switch (filter) {
+        case "gaussian":
+            return Uint8ClampedArray.from(gaussianBlur(Float32Array.from(grayData), width, height, sigma));
+        case "median":
+            return medianFilter(grayData, width, height, Math.floor(median / 2));
+        case "bilateral":
+            return bilateralFilter(grayData, width, height, sigma, range);
+        default:
+            return grayData;
+    }
+};
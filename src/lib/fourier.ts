@@ -0,0 +1,147 @@
+/**
+ * Еліптичні дескриптори Фур'є та бібліотека еталонних фігур
+ */
+
+import { Point, regularPolygon, polygonSignedArea } from "@/lib/geometry";
+import type { ShapeClass } from "@/lib/shapes";
+
+/**
+ * Еталонна фігура для класифікації за найближчим збігом дескрипторів Фур'є
+ * outline - вершини контуру (положення, масштаб і поворот не важливі)
+ * shapeClass - клас, який отримує схожий об'єкт (unknown для фігур поза класифікатором)
+ */
+export interface ReferenceShape {
+    name: string;
+    marker: string;
+    color: string;
+    shapeClass: ShapeClass;
+    outline: Point[];
+}
+
+/**
+ * Бібліотека еталонних фігур, що постачається з застосунком
+ */
+export const REFERENCE_SHAPES: ReferenceShape[] = [
+    { name: "Квадрат", marker: "4", color: "red", shapeClass: "square", outline: regularPolygon(4) },
+    {
+        name: "Прямокутник 3:2", marker: "4R", color: "#f97316", shapeClass: "rectangle",
+        outline: [{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 3, y: 2 }, { x: 0, y: 2 }],
+    },
+    {
+        name: "Прямокутник 5:2", marker: "4R", color: "#f97316", shapeClass: "rectangle",
+        outline: [{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 2 }, { x: 0, y: 2 }],
+    },
+    { name: "Рівносторонній трикутник", marker: "3", color: "#16a34a", shapeClass: "triangle", outline: regularPolygon(3) },
+    {
+        name: "Рівнобедрений трикутник", marker: "3", color: "#16a34a", shapeClass: "triangle",
+        outline: [{ x: 0, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }],
+    },
+    { name: "Коло", marker: "0", color: "#2563eb", shapeClass: "circle", outline: regularPolygon(128) },
+    { name: "Шестикутник", marker: "6", color: "#0d9488", shapeClass: "polygon", outline: regularPolygon(6) },
+    { name: "П'ятикутна зірка", marker: "5*", color: "#eab308", shapeClass: "unknown", outline: regularPolygon(10, [1, 0.38]) },
+    {
+        name: "Хрест", marker: "+", color: "#7c3aed", shapeClass: "unknown",
+        outline: [
+            { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 1 }, { x: 3, y: 1 }, { x: 3, y: 2 }, { x: 2, y: 2 },
+            { x: 2, y: 3 }, { x: 1, y: 3 }, { x: 1, y: 2 }, { x: 0, y: 2 }, { x: 0, y: 1 }, { x: 1, y: 1 },
+        ],
+    },
+];
+
+/**
+ * Збіг об'єкта з еталонною фігурою; similarity - схожість дескрипторів Фур'є (0-1)
+ */
+export interface ShapeMatch {
+    reference: ReferenceShape;
+    similarity: number;
+}
+
+// Кількість гармонік еліптичних дескрипторів Фур'є
+export const FOURIER_HARMONICS = 12;
+
+// Відстань між дескрипторами, за якої схожість дорівнює 0.5
+export const FOURIER_DISTANCE_SCALE = 0.05;
+
+// Мінімальна схожість з еталоном, за якої об'єкт вважається збігом
+export const MIN_MATCH_SIMILARITY = 0.3;
+
+/**
+ * Еліптичні дескриптори Фур'є замкненої межі (Kuhl, Giardina, 1982)
+ * Межа розглядається як ламана, і для кожної гармоніки n точно обчислюються коефіцієнти
+ * an, bn, cn, dn розкладу x(t) та y(t) за довжиною дуги t. Гармоніка описує еліпс;
+ * довжини його півосей не змінюються при повороті фігури та зсуві початкової точки,
+ * тому дескриптор - півосі всіх гармонік, поділені на велику піввісь першої (масштаб)
+ * Мала піввісь має знак: від'ємна, якщо еліпс гармоніки обходиться проти напрямку межі
+ * Межа попередньо орієнтується за годинниковою стрілкою, тож напрям обходу не впливає
+ * @returns [велика, мала піввісь] для гармонік 1..harmonics підряд
+ */
+export const ellipticFourierDescriptors = (boundary: Point[], harmonics = FOURIER_HARMONICS): number[] => {
+    const points = polygonSignedArea(boundary) < 0 ? [...boundary].reverse() : boundary;
+
+    const segments: { dx: number; dy: number; start: number; end: number }[] = [];
+    let length = 0;
+    points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length];
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const step = Math.hypot(dx, dy);
+        if (step === 0) return;
+        segments.push({ dx: dx / step, dy: dy / step, start: length, end: length + step });
+        length += step;
+    });
+
+    const descriptor: number[] = [];
+    let scale = 0;
+    for (let n = 1; n <= harmonics; n++) {
+        let a = 0, b = 0, c = 0, d = 0;
+        const omega = 2 * Math.PI * n / length;
+        segments.forEach(({ dx, dy, start, end }) => {
+            const cos = Math.cos(omega * end) - Math.cos(omega * start);
+            const sin = Math.sin(omega * end) - Math.sin(omega * start);
+            a += dx * cos;
+            b += dx * sin;
+            c += dy * cos;
+            d += dy * sin;
+        });
+        const factor = length / (2 * n * n * Math.PI * Math.PI);
+        a *= factor;
+        b *= factor;
+        c *= factor;
+        d *= factor;
+
+        // Півосі еліпса [[a, b], [c, d]] - сума та різниця амплітуд його
+        // складових, що обертаються в протилежні боки
+        const forward = Math.hypot(a + d, c - b) / 2;
+        const backward = Math.hypot(a - d, b + c) / 2;
+        if (n === 1) scale = forward + backward || 1;
+        descriptor.push((forward + backward) / scale, (forward - backward) / scale);
+    }
+    return descriptor;
+};
+
+/**
+ * Схожість двох дескрипторів Фур'є від 0 до 1: 1 / (1 + d / FOURIER_DISTANCE_SCALE),
+ * де d - евклідова відстань між ними; 0.5 відповідає відстані FOURIER_DISTANCE_SCALE
+ */
+export const descriptorSimilarity = (a: number[], b: number[]): number => {
+    let sum = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        sum += (a[i] - b[i]) ** 2;
+    }
+    return 1 / (1 + Math.sqrt(sum) / FOURIER_DISTANCE_SCALE);
+};
+
+// Дескриптори еталонних фігур: бібліотека незмінна, тож обчислюються один раз при завантаженні модуля
+const REFERENCE_DESCRIPTORS = REFERENCE_SHAPES.map(reference => ellipticFourierDescriptors(reference.outline));
+
+/**
+ * Порівнює дескриптор з усіма фігурами бібліотеки еталонів
+ * @returns збіги від найсхожішого до найменш схожого
+ */
+export const matchReferenceShapes = (descriptor: number[]): ShapeMatch[] =>
+    REFERENCE_SHAPES
+        .map((reference, index) => ({
+            reference,
+            similarity: descriptorSimilarity(descriptor, REFERENCE_DESCRIPTORS[index]),
+        }))
+        .sort((a, b) => b.similarity - a.similarity);
@@ -0,0 +1,22 @@
+/**
+ * Лінійна функція належності
+ */
+
+import { describe, expect, it } from "vitest";
+import { ramp } from "@/lib/fuzzy";
+
+describe("ramp", () => {
+    it("rises linearly between the ends and is clamped outside them", () => {
+        expect(ramp(0.75, 0.75, 0.95)).toBe(0);
+        expect(ramp(0.85, 0.75, 0.95)).toBeCloseTo(0.5);
+        expect(ramp(0.95, 0.75, 0.95)).toBe(1);
+        expect(ramp(0.5, 0.75, 0.95)).toBe(0);
+        expect(ramp(1, 0.75, 0.95)).toBe(1);
+    });
+
+    it("falls when the first end is larger", () => {
+        expect(ramp(0, 30, 0)).toBe(1);
+        expect(ramp(15, 30, 0)).toBeCloseTo(0.5);
+        expect(ramp(45, 30, 0)).toBe(0);
+    });
+});
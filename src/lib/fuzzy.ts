@@ -0,0 +1,10 @@
+/**
+ * Функції належності для нечіткої оцінки впевненості
+ */
+
+/**
+ * Лінійна функція належності: 0 при value = from, 1 при value = to, між ними - лінійно
+ * (якщо from > to, функція спадна)
+ */
+export const ramp = (value: number, from: number, to: number): number =>
+    Math.max(0, Math.min(1, (value - from) / (to - from)));
@@ -0,0 +1,130 @@
+/**
+ * Спрощення межі, заокругленість кутів та інші обчислення з полігонами
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+    Point,
+    simplifyPolygon,
+    cornerRoundness,
+    getBoundaryLength,
+    convexHull,
+    minAreaRect,
+    POLYGON_EPSILON_RATIO,
+} from "@/lib/geometry";
+import { findContours } from "@/lib/contours";
+import { squareMask } from "@/test/masks";
+
+/**
+ * Замкнена межа прямокутника з кроком 1 піксель (за годинниковою стрілкою)
+ */
+const rectangleBoundary = (width: number, height: number): Point[] => {
+    const points: Point[] = [];
+    for (let x = 0; x < width; x++) points.push({ x, y: 0 });
+    for (let y = 0; y < height; y++) points.push({ x: width, y });
+    for (let x = width; x > 0; x--) points.push({ x, y: height });
+    for (let y = height; y > 0; y--) points.push({ x: 0, y });
+    return points;
+};
+
+/**
+ * Межа квадрата зі стороною side, кути якого заокруглено радіусом radius
+ */
+const roundedSquareBoundary = (side: number, radius: number): Point[] => {
+    const half = side / 2;
+    const points: Point[] = [];
+    const centers = [[1, -1], [1, 1], [-1, 1], [-1, -1]];
+    centers.forEach(([sx, sy], corner) => {
+        const cx = sx * (half - radius);
+        const cy = sy * (half - radius);
+        for (let step = 0; step < 20; step++) {
+            const angle = (corner - 1) * Math.PI / 2 + step * Math.PI / 2 / 20;
+            points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+        }
+        const next = centers[(corner + 1) % 4];
+        const from = points[points.length - 1];
+        const to = {
+            x: next[0] * (half - radius) + radius * Math.cos(corner * Math.PI / 2),
+            y: next[1] * (half - radius) + radius * Math.sin(corner * Math.PI / 2),
+        };
+        for (let step = 1; step < 20; step++) {
+            points.push({ x: from.x + (to.x - from.x) * step / 20, y: from.y + (to.y - from.y) * step / 20 });
+        }
+    });
+    return points;
+};
+
+const simplify = (boundary: Point[]) =>
+    simplifyPolygon(boundary, POLYGON_EPSILON_RATIO * getBoundaryLength(boundary));
+
+describe("simplifyPolygon", () => {
+    it("reduces a rectangle boundary to its four corners", () => {
+        const polygon = simplify(rectangleBoundary(40, 20));
+        expect(polygon).toHaveLength(4);
+        expect(polygon).toEqual(expect.arrayContaining([
+            { x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 20 }, { x: 0, y: 20 },
+        ]));
+    });
+
+    it("keeps vertices that are taken from the boundary itself", () => {
+        const boundary = rectangleBoundary(30, 30);
+        simplify(boundary).forEach(vertex => expect(boundary).toContain(vertex));
+    });
+
+    it("returns short boundaries unchanged", () => {
+        const boundary = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }];
+        expect(simplifyPolygon(boundary, 1)).toEqual(boundary);
+    });
+});
+
+describe("cornerRoundness", () => {
+    it("is zero for sharp corners", () => {
+        const boundary = rectangleBoundary(50, 50);
+        expect(cornerRoundness(boundary, simplify(boundary))).toBeLessThan(0.01);
+    });
+
+    it("grows with the corner radius", () => {
+        // Вершини - середини дуг заокруглення
+        const boundary = roundedSquareBoundary(100, 20);
+        const polygon = [10, 49, 88, 127].map(index => boundary[index]);
+        // Ідеальна вершина віддалена від дуги на (√2 - 1)·r, сторона полігона - 100 - (2 - √2)·r
+        expect(cornerRoundness(boundary, polygon)).toBeCloseTo((Math.SQRT2 - 1) * 20 / (100 - (2 - Math.SQRT2) * 20), 2);
+    });
+});
+
+describe("minAreaRect", () => {
+    it("fits a rotated rectangle exactly, adding one pixel of thickness to each side", () => {
+        const angle = 30 * Math.PI / 180;
+        const rotate = ({ x, y }: Point) => ({
+            x: 100 + x * Math.cos(angle) - y * Math.sin(angle),
+            y: 100 + x * Math.sin(angle) + y * Math.cos(angle),
+        });
+        const rect = minAreaRect(convexHull([
+            { x: -30, y: -10 }, { x: 30, y: -10 }, { x: 30, y: 10 }, { x: -30, y: 10 }, { x: 5, y: 0 },
+        ].map(rotate)));
+
+        expect([rect.width, rect.height].sort((a, b) => a - b)).toEqual([
+            expect.closeTo(21, 6),
+            expect.closeTo(61, 6),
+        ]);
+        expect(((rect.angle % 90) + 90) % 90).toBeCloseTo(30, 6);
+        expect(rect.center.x).toBeCloseTo(100, 6);
+        expect(rect.center.y).toBeCloseTo(100, 6);
+    });
+
+    it("finds a square box for a square mask at any rotation", () => {
+        for (const angle of [0, 15, 30, 45, 60]) {
+            const mask = squareMask(120, 120, { x: 60, y: 60 }, 50, angle);
+            const [contour] = findContours(mask, 120, 120);
+            const { width, height } = minAreaRect(convexHull(contour.outer));
+
+            expect(Math.min(width, height) / Math.max(width, height)).toBeGreaterThan(0.95);
+            expect(width * height).toBeLessThan(50 * 50 * 1.1);
+        }
+    });
+
+    it("falls back to the bounding box for fewer than three points", () => {
+        const rect = minAreaRect([{ x: 2, y: 3 }, { x: 6, y: 3 }]);
+        expect(rect).toMatchObject({ width: 5, height: 1, angle: 0, center: { x: 4, y: 3 } });
+    });
+});
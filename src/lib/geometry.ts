@@ -0,0 +1,448 @@
+/**
+ * Геометрія точок і полігонів: площа, опукла оболонка, мінімальний повернутий
+ * прямокутник, спрощення межі, сторони та кути многокутників
+ */
+
+/**
+ * Точка на площині зображення (у пікселях)
+ */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// 8 напрямків обходу сусідів Мура за годинниковою стрілкою, починаючи із заходу (вісь y направлена вниз)
+export const MOORE_DIRECTIONS: [number, number][] = [
+    [-1, 0], [-1, -1], [0, -1], [1, -1],
+    [1, 0], [1, 1], [0, 1], [-1, 1]
+];
+
+/**
+ * Повернутий прямокутник (мінімальний за площею, що описує об'єкт)
+ * angle - кут нахилу однієї зі сторін у градусах, width/height - довжини сторін
+ */
+export interface RotatedRect {
+    center: Point;
+    width: number;
+    height: number;
+    angle: number;
+    corners: Point[];
+}
+
+/**
+ * Вершини правильного многокутника, вписаного в одиничне коло
+ * @param radii - радіуси вершин по черзі (для зірок), за замовчуванням усі 1
+ */
+export const regularPolygon = (vertices: number, radii: number[] = [1]): Point[] =>
+    Array.from({ length: vertices }, (_, i) => {
+        const angle = -Math.PI / 2 + 2 * Math.PI * i / vertices;
+        const radius = radii[i % radii.length];
+        return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+    });
+
+// Допуск спрощення полігона Дугласа–Пекера відносно довжини межі
+export const POLYGON_EPSILON_RATIO = 0.02;
+
+// Синус найменшого повороту межі (15°), за якого вершина полігона вважається кутом
+export const MIN_CORNER_TURN_SIN = Math.sin(15 * Math.PI / 180);
+
+/**
+ * Орієнтована площа полігона за формулою шнурування (Гаусса): додатна, якщо
+ * вершини йдуть за годинниковою стрілкою на екрані (вісь y направлена вниз)
+ */
+export const polygonSignedArea = (polygon: Point[]): number => {
+    let doubled = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        doubled += a.x * b.y - b.x * a.y;
+    }
+    return doubled / 2;
+};
+
+/**
+ * Площа полігона за формулою шнурування (Гаусса)
+ */
+export const polygonArea = (polygon: Point[]): number => Math.abs(polygonSignedArea(polygon));
+
+/**
+ * Наближає опуклу оболонку чотирикутником
+ * Послідовно видаляє вершину, що утворює з сусідами трикутник найменшої площі
+ * (тобто найменше змінює форму), доки не залишиться 4 вершини
+ */
+export const fitQuadrilateral = (hull: Point[]): Point[] | null => {
+    if (hull.length < 4) return null;
+
+    const vertices = hull.slice();
+    while (vertices.length > 4) {
+        let weakest = 0;
+        let weakestArea = Infinity;
+        for (let i = 0; i < vertices.length; i++) {
+            const area = polygonArea([
+                vertices[(i - 1 + vertices.length) % vertices.length],
+                vertices[i],
+                vertices[(i + 1) % vertices.length],
+            ]);
+            if (area < weakestArea) {
+                weakestArea = area;
+                weakest = i;
+            }
+        }
+        vertices.splice(weakest, 1);
+    }
+
+    return vertices;
+};
+
+/**
+ * Довжини сторін та внутрішні кути (у градусах) опуклого полігона
+ * sides[i] - сторона від вершини i до i + 1, angles[i] - кут при вершині i
+ */
+export const measurePolygon = (polygon: Point[]): { sides: number[]; angles: number[] } => {
+    const n = polygon.length;
+    const sides: number[] = [];
+    const angles: number[] = [];
+
+    for (let i = 0; i < n; i++) {
+        const prev = polygon[(i - 1 + n) % n];
+        const current = polygon[i];
+        const next = polygon[(i + 1) % n];
+
+        sides.push(Math.hypot(next.x - current.x, next.y - current.y));
+
+        const ax = prev.x - current.x;
+        const ay = prev.y - current.y;
+        const bx = next.x - current.x;
+        const by = next.y - current.y;
+        const cos = (ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by) || 1);
+        angles.push(Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI);
+    }
+
+    return { sides, angles };
+};
+
+/**
+ * Впорядковує вершини чотирикутника для вирізання: обхід за годинниковою стрілкою
+ * (на екрані, вісь y вниз), починаючи з верхньої лівої вершини, - тоді фрагмент
+ * не повертається на довільні 90° залежно від того, з якої вершини почався контур
+ */
+export const orderCorners = (quad: Point[]): Point[] => {
+    const clockwise = polygonSignedArea(quad) < 0 ? [...quad].reverse() : quad;
+    let start = 0;
+    clockwise.forEach((p, i) => {
+        if (p.x + p.y < clockwise[start].x + clockwise[start].y) start = i;
+    });
+
+    return [...clockwise.slice(start), ...clockwise.slice(0, start)];
+};
+
+/**
+ * Опукла оболонка множини точок (алгоритм монотонного ланцюга Ендрю)
+ */
+export const convexHull = (points: Point[]): Point[] => {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length < 3) return sorted;
+
+    const cross = (o: Point, a: Point, b: Point) =>
+        (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+    const lower: Point[] = [];
+    for (const p of sorted) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+            lower.pop();
+        }
+        lower.push(p);
+    }
+
+    const upper: Point[] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const p = sorted[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+            upper.pop();
+        }
+        upper.push(p);
+    }
+
+    lower.pop();
+    upper.pop();
+    return lower.concat(upper);
+};
+
+/**
+ * Мінімальний за площею описаний прямокутник (метод обертових супортів)
+ * Одна зі сторін оптимального прямокутника лежить на ребрі опуклої оболонки,
+ * тому перебираємо ребра, а три "супорти" (крайні точки вздовж ребра, по нормалі
+ * та проти ребра) лише просуваються вперед по оболонці
+ * Розміри враховують товщину пікселя (+1), оскільки оболонка проходить через центри пікселів
+ */
+export const minAreaRect = (hull: Point[]): RotatedRect => {
+    const n = hull.length;
+
+    if (n < 3) {
+        const xs = hull.map(p => p.x);
+        const ys = hull.map(p => p.y);
+        const minX = Math.min(...xs), maxX = Math.max(...xs);
+        const minY = Math.min(...ys), maxY = Math.max(...ys);
+        return {
+            center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+            width: maxX - minX + 1,
+            height: maxY - minY + 1,
+            angle: 0,
+            corners: [
+                { x: minX, y: minY }, { x: maxX, y: minY },
+                { x: maxX, y: maxY }, { x: minX, y: maxY }
+            ],
+        };
+    }
+
+    // Напрямок нормалі обираємо так, щоб оболонка лежала з додатного боку ребра
+    const normalSign = polygonSignedArea(hull) > 0 ? 1 : -1;
+
+    let best: { area: number; ux: number; uy: number; base: Point; minU: number; maxU: number; maxV: number } | null = null;
+    let right = 1, top = 1, left = 1;
+
+    for (let i = 0; i < n; i++) {
+        const base = hull[i];
+        const next = hull[(i + 1) % n];
+        const length = Math.hypot(next.x - base.x, next.y - base.y);
+        if (length === 0) continue;
+
+        const ux = (next.x - base.x) / length;
+        const uy = (next.y - base.y) / length;
+        const vx = -uy * normalSign;
+        const vy = ux * normalSign;
+
+        const alongU = (k: number) => (hull[k % n].x - base.x) * ux + (hull[k % n].y - base.y) * uy;
+        const alongV = (k: number) => (hull[k % n].x - base.x) * vx + (hull[k % n].y - base.y) * vy;
+
+        right = Math.max(right, i + 1);
+        for (let guard = 0; guard < n && alongU(right + 1) > alongU(right) + 1e-9; guard++) right++;
+
+        top = Math.max(top, right);
+        for (let guard = 0; guard < n && alongV(top + 1) > alongV(top) + 1e-9; guard++) top++;
+
+        left = Math.max(left, top);
+        for (let guard = 0; guard < n && alongU(left + 1) < alongU(left) - 1e-9; guard++) left++;
+
+        const minU = Math.min(0, alongU(left));
+        const maxU = alongU(right);
+        const maxV = alongV(top);
+        const area = (maxU - minU + 1) * (maxV + 1);
+
+        if (!best || area < best.area) {
+            best = { area, ux, uy, base, minU, maxU, maxV };
+        }
+    }
+
+    const { ux, uy, base, minU, maxU, maxV } = best!;
+    const vx = -uy * normalSign;
+    const vy = ux * normalSign;
+    const at = (u: number, v: number): Point => ({
+        x: base.x + ux * u + vx * v,
+        y: base.y + uy * u + vy * v,
+    });
+
+    return {
+        center: at((minU + maxU) / 2, maxV / 2),
+        width: maxU - minU + 1,
+        height: maxV + 1,
+        angle: Math.atan2(uy, ux) * 180 / Math.PI,
+        corners: [at(minU, 0), at(maxU, 0), at(maxU, maxV), at(minU, maxV)],
+    };
+};
+
+/**
+ * Довжина замкненої межі (сума відстаней між сусідніми точками)
+ */
+export const getBoundaryLength = (boundary: Point[]): number => {
+    let length = 0;
+    for (let i = 0; i < boundary.length; i++) {
+        const a = boundary[i];
+        const b = boundary[(i + 1) % boundary.length];
+        length += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    return length;
+};
+
+/**
+ * Спрощення замкненої межі алгоритмом Дугласа–Пекера
+ * Межа розбивається на дві ламані між двома найвіддаленішими точками,
+ * у кожній рекурсивно залишаються точки, що відхиляються від хорди більше ніж на epsilon
+ */
+export const simplifyPolygon = (boundary: Point[], epsilon: number): Point[] => {
+    if (boundary.length < 4) return boundary.slice();
+
+    const farthestFrom = (from: Point): number => {
+        let best = 0;
+        let bestDistance = -1;
+        boundary.forEach((p, i) => {
+            const d = (p.x - from.x) ** 2 + (p.y - from.y) ** 2;
+            if (d > bestDistance) {
+                bestDistance = d;
+                best = i;
+            }
+        });
+        return best;
+    };
+
+    // Дві найвіддаленіші точки межі (наближено) - майже напевно вершини полігона
+    const a = farthestFrom(boundary[0]);
+    const b = farthestFrom(boundary[a]);
+
+    // Переставляємо межу так, щоб вона починалась з точки a і замикалась нею ж
+    const n = boundary.length;
+    const points = [...boundary.slice(a), ...boundary.slice(0, a), boundary[a]];
+    const split = (b - a + n) % n;
+
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[split] = 1;
+    keep[n] = 1;
+
+    const stack: [number, number][] = [[0, split], [split, n]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        if (last - first < 2) continue;
+
+        const p1 = points[first];
+        const p2 = points[last];
+        const dx = p2.x - p1.x;
+        const dy = p2.y - p1.y;
+        const chord = Math.hypot(dx, dy);
+
+        let index = -1;
+        let maxDistance = 0;
+        for (let i = first + 1; i < last; i++) {
+            const p = points[i];
+            const distance = chord > 0
+                ? Math.abs(dy * (p.x - p1.x) - dx * (p.y - p1.y)) / chord
+                : Math.hypot(p.x - p1.x, p.y - p1.y);
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                index = i;
+            }
+        }
+
+        if (index !== -1 && maxDistance > epsilon) {
+            keep[index] = 1;
+            stack.push([first, index], [index, last]);
+        }
+    }
+
+    // Остання точка - дублікат першої, її не включаємо
+    return points.filter((_, i) => keep[i] && i < n);
+};
+
+/**
+ * Рівномірність сторін та відхилення кутів полігона від прямого
+ * sideRatio - відношення найкоротшої сторони до найдовшої (1 для квадрата)
+ * maxAngleDeviation - найбільше відхилення внутрішнього кута від 90° (у градусах)
+ */
+export const analyzePolygon = (polygon: Point[]): { sideRatio: number; maxAngleDeviation: number } => {
+    const n = polygon.length;
+    if (n < 3) return { sideRatio: 0, maxAngleDeviation: 90 };
+
+    let minSide = Infinity;
+    let maxSide = 0;
+    let maxAngleDeviation = 0;
+
+    for (let i = 0; i < n; i++) {
+        const prev = polygon[(i - 1 + n) % n];
+        const current = polygon[i];
+        const next = polygon[(i + 1) % n];
+
+        const side = Math.hypot(next.x - current.x, next.y - current.y);
+        minSide = Math.min(minSide, side);
+        maxSide = Math.max(maxSide, side);
+
+        const ax = prev.x - current.x;
+        const ay = prev.y - current.y;
+        const bx = next.x - current.x;
+        const by = next.y - current.y;
+        const cos = (ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by) || 1);
+        const angle = Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
+        maxAngleDeviation = Math.max(maxAngleDeviation, Math.abs(angle - 90));
+    }
+
+    return { sideRatio: maxSide > 0 ? minSide / maxSide : 0, maxAngleDeviation };
+};
+
+/**
+ * Заокругленість кутів полігона, спрощеного з межі simplifyPolygon
+ * Через середні три п'ятих ділянки межі між сусідніми вершинами проводиться пряма
+ * (метод найменших квадратів); сусідні прямі перетинаються в ідеальній вершині.
+ * Результат - найбільша відстань від ідеальної вершини до межі, поділена на середню
+ * довжину сторони: близько 0 для гострих кутів, 0.41·r/сторона для кутів радіуса r
+ * (спрощення з допуском POLYGON_EPSILON_RATIO не помічає дуг радіусом до ~0.2 сторони)
+ * @param polygon - вершини, взяті з boundary (ті самі об'єкти точок)
+ */
+export const cornerRoundness = (boundary: Point[], polygon: Point[]): number => {
+    const n = polygon.length;
+    if (n < 3) return 0;
+
+    const indexOf = new Map(boundary.map((p, i) => [p, i] as const));
+    const indices = polygon.map(p => indexOf.get(p));
+    if (indices.some(index => index === undefined)) return 0;
+
+    // Пряма через середні три п'ятих ділянки межі від вершини i до i + 1:
+    // точка на прямій та одиничний напрямок (головна вісь розкиду точок)
+    const sideLines = indices.map((from, i) => {
+        const to = indices[(i + 1) % n];
+        const length = (to - from + boundary.length) % boundary.length;
+        const points: Point[] = [];
+        for (let k = Math.floor(length / 5); k <= Math.ceil(length * 4 / 5); k++) {
+            points.push(boundary[(from + k) % boundary.length]);
+        }
+
+        const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+        const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+        let xx = 0, xy = 0, yy = 0;
+        points.forEach(p => {
+            xx += (p.x - cx) ** 2;
+            xy += (p.x - cx) * (p.y - cy);
+            yy += (p.y - cy) ** 2;
+        });
+        const theta = Math.atan2(2 * xy, xx - yy) / 2;
+        return { x: cx, y: cy, dx: Math.cos(theta), dy: Math.sin(theta) };
+    });
+
+    const { sides } = measurePolygon(polygon);
+    const meanSide = sides.reduce((sum, side) => sum + side, 0) / n;
+    if (meanSide === 0) return 0;
+
+    let roundness = 0;
+    for (let i = 0; i < n; i++) {
+        const a = sideLines[(i - 1 + n) % n];
+        const b = sideLines[i];
+        // Межа майже не повертає - вершина лише ділить пряму сторону, кута тут немає
+        const cross = a.dx * b.dy - a.dy * b.dx;
+        if (Math.abs(cross) < MIN_CORNER_TURN_SIN) continue;
+
+        const t = ((b.x - a.x) * b.dy - (b.y - a.y) * b.dx) / cross;
+        const corner = { x: a.x + t * a.dx, y: a.y + t * a.dy };
+
+        let nearest = Infinity;
+        boundary.forEach(p => {
+            nearest = Math.min(nearest, Math.hypot(p.x - corner.x, p.y - corner.y));
+        });
+        roundness = Math.max(roundness, nearest / meanSide);
+    }
+
+    return roundness;
+};
+
+/**
+ * Ray casting: чи лежить точка всередині полігона
+ */
+export const isInside = (point: Point, polygon: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) &&
+            point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
@@ -0,0 +1,79 @@
+/**
+ * Перетворення кольорового зображення у відтінки сірого
+ */
+
+/**
+ * Спосіб перетворення кольорового зображення у відтінки сірого
+ */
+export type GrayscaleMode =
+    | "average"
+    | "bt601"
+    | "bt709"
+    | "red"
+    | "green"
+    | "blue"
+    | "value"
+    | "saturation";
+
+export const GRAYSCALE_MODE_LABELS: Record<GrayscaleMode, string> = {
+    average: "Середнє (R+G+B)/3",
+    bt601: "Яскравість BT.601",
+    bt709: "Яскравість BT.709",
+    red: "Канал R",
+    green: "Канал G",
+    blue: "Канал B",
+    value: "Максимальний канал (HSV V)",
+    saturation: "Насиченість (HSV S)",
+};
+
+/**
+ * Перетворює кольорове зображення у відтінки сірого
+ * - average: просте усереднення R, G, B компонентів
+ * - bt601 / bt709: зважена яскравість (luma) за стандартами ITU-R
+ * - red / green / blue: окремий колірний канал
+ * - value: V з моделі HSV, тобто максимальний з каналів
+ * - saturation: S з моделі HSV, відрізняє кольорові фігури від сірого фону
+ */
+export const toGrayscale = (imageData: ImageData, mode: GrayscaleMode): Uint8ClampedArray => {
+    const gray = new Uint8ClampedArray(imageData.width * imageData.height);
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        let value: number;
+
+        switch (mode) {
+            case "bt601":
+                value = 0.299 * r + 0.587 * g + 0.114 * b;
+                break;
+            case "bt709":
+                value = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+                break;
+            case "red":
+                value = r;
+                break;
+            case "green":
+                value = g;
+                break;
+            case "blue":
+                value = b;
+                break;
+            case "value":
+                value = Math.max(r, g, b);
+                break;
+            case "saturation": {
+                const max = Math.max(r, g, b);
+                const min = Math.min(r, g, b);
+                value = max === 0 ? 0 : ((max - min) / max) * 255;
+                break;
+            }
+            default:
+                value = (r + g + b) / 3;
+        }
+
+        gray[i / 4] = value;
+    }
+    return gray;
+};
@@ -0,0 +1,114 @@
+/**
+ * Центральні та нормовані моменти області, інваріанти Ху
+ */
+
+/**
+ * Центральні моменти другого та третього порядку (mPQ - порядок P по x, Q по y)
+ * Для нормованих моментів η усі значення поділено на площу в степені 1 + (P + Q) / 2
+ */
+export interface Moments {
+    m20: number;
+    m11: number;
+    m02: number;
+    m30: number;
+    m21: number;
+    m12: number;
+    m03: number;
+}
+
+/**
+ * Сирі моменти до третього порядку: mPQ = Σ x^P·y^Q по пікселях області
+ * (m00 - площа, m10 і m01 - суми координат)
+ */
+export interface RawMoments extends Moments {
+    m00: number;
+    m10: number;
+    m01: number;
+}
+
+/**
+ * Сирі моменти тієї ж області в системі координат, зсунутій на (dx, dy):
+ * Σ (x + dx)^P·(y + dy)^Q розкладається за біномом через моменти нижчих порядків
+ */
+export const translateMoments = (raw: RawMoments, dx: number, dy: number): RawMoments => {
+    const { m00, m10, m01, m20, m11, m02, m30, m21, m12, m03 } = raw;
+    return {
+        m00,
+        m10: m10 + dx * m00,
+        m01: m01 + dy * m00,
+        m20: m20 + 2 * dx * m10 + dx * dx * m00,
+        m11: m11 + dx * m01 + dy * m10 + dx * dy * m00,
+        m02: m02 + 2 * dy * m01 + dy * dy * m00,
+        m30: m30 + 3 * dx * m20 + 3 * dx * dx * m10 + dx ** 3 * m00,
+        m21: m21 + 2 * dx * m11 + dx * dx * m01 + dy * m20 + 2 * dx * dy * m10 + dx * dx * dy * m00,
+        m12: m12 + 2 * dy * m11 + dy * dy * m10 + dx * m02 + 2 * dx * dy * m01 + dx * dy * dy * m00,
+        m03: m03 + 3 * dy * m02 + 3 * dy * dy * m01 + dy ** 3 * m00,
+    };
+};
+
+/**
+ * Сирі моменти об'єднання двох областей, що не перетинаються (в одній системі координат)
+ */
+export const addMoments = (a: RawMoments, b: RawMoments): RawMoments => ({
+    m00: a.m00 + b.m00,
+    m10: a.m10 + b.m10,
+    m01: a.m01 + b.m01,
+    m20: a.m20 + b.m20,
+    m11: a.m11 + b.m11,
+    m02: a.m02 + b.m02,
+    m30: a.m30 + b.m30,
+    m21: a.m21 + b.m21,
+    m12: a.m12 + b.m12,
+    m03: a.m03 + b.m03,
+});
+
+/**
+ * Центральні моменти другого та третього порядку із сирих:
+ * сирі моменти, перенесені в центр мас (m10 / m00, m01 / m00)
+ */
+export const centralMoments = (raw: RawMoments): Moments => {
+    const { m20, m11, m02, m30, m21, m12, m03 } =
+        translateMoments(raw, -raw.m10 / raw.m00, -raw.m01 / raw.m00);
+    return { m20, m11, m02, m30, m21, m12, m03 };
+};
+
+/**
+ * Нормовані центральні моменти: ηPQ = μPQ / μ00^(1 + (P + Q) / 2)
+ * Не залежать від положення та масштабу об'єкта
+ */
+export const normalizeMoments = (moments: Moments, area: number): Moments => {
+    const second = area * area;
+    const third = Math.pow(area, 2.5);
+    return {
+        m20: moments.m20 / second,
+        m11: moments.m11 / second,
+        m02: moments.m02 / second,
+        m30: moments.m30 / third,
+        m21: moments.m21 / third,
+        m12: moments.m12 / third,
+        m03: moments.m03 / third,
+    };
+};
+
+/**
+ * Сім інваріантів Ху - комбінації нормованих моментів, що не змінюються
+ * при зсуві, масштабуванні та повороті (φ7 змінює знак при дзеркальному відображенні)
+ * Для ідеального квадрата φ1 = 1/6, решта - нулі; для кола φ1 = 1/(2π)
+ */
+export const huInvariants = (eta: Moments): number[] => {
+    const { m20, m11, m02, m30, m21, m12, m03 } = eta;
+    const a = m30 + m12;
+    const b = m21 + m03;
+    const c = m30 - 3 * m12;
+    const d = 3 * m21 - m03;
+
+    return [
+        m20 + m02,
+        (m20 - m02) ** 2 + 4 * m11 ** 2,
+        c ** 2 + d ** 2,
+        a ** 2 + b ** 2,
+        c * a * (a ** 2 - 3 * b ** 2) + d * b * (3 * a ** 2 - b ** 2),
+        (m20 - m02) * (a ** 2 - b ** 2) + 4 * m11 * a * b,
+        d * a * (a ** 2 - 3 * b ** 2) - c * b * (3 * a ** 2 - b ** 2),
+    ];
+};
@@ -0,0 +1,110 @@
+/**
+ * Ерозія й дилатація відрізками проти прямого перебору та ланцюжки операцій
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+    MorphologyStep,
+    StructuringElementShape,
+    structuringElementSpans,
+    morphologyPass,
+    applyMorphology,
+    formatMorphologySteps,
+} from "@/lib/morphology";
+
+const WIDTH = 40;
+const HEIGHT = 30;
+
+/**
+ * Ерозія / дилатація прямим перебором пікселів структурного елемента
+ */
+const referencePass = (binary: Uint8ClampedArray, spans: number[], mode: "erode" | "dilate") => {
+    const r = Math.floor(spans.length / 2);
+    return binary.map((_, idx) => {
+        const x = idx % WIDTH;
+        const y = Math.floor(idx / WIDTH);
+        let white = 0;
+        let total = 0;
+        spans.forEach((span, i) => {
+            for (let dx = -span; dx <= span; dx++) {
+                const nx = x + dx;
+                const ny = y + i - r;
+                if (span < 0 || nx < 0 || nx >= WIDTH || ny < 0 || ny >= HEIGHT) continue;
+                total++;
+                if (binary[ny * WIDTH + nx] === 255) white++;
+            }
+        });
+        return (mode === "erode" ? white === total : white > 0) ? 255 : 0;
+    });
+};
+
+/**
+ * Маска з прямокутником 20×14 та поодинокими білими пікселями
+ */
+const squareWithSpecks = () => {
+    const mask = new Uint8ClampedArray(WIDTH * HEIGHT);
+    for (let y = 8; y < 22; y++) {
+        for (let x = 10; x < 30; x++) mask[y * WIDTH + x] = 255;
+    }
+    const specks = [2 * WIDTH + 3, 25 * WIDTH + 35, 5 * WIDTH + 36];
+    specks.forEach(idx => { mask[idx] = 255; });
+    return { mask, specks };
+};
+
+describe("structuringElementSpans", () => {
+    it("describes square, cross and disk elements row by row", () => {
+        expect(structuringElementSpans("square", 5)).toEqual([2, 2, 2, 2, 2]);
+        expect(structuringElementSpans("cross", 5)).toEqual([0, 0, 2, 0, 0]);
+        expect(structuringElementSpans("disk", 5)).toEqual([0, 1, 2, 1, 0]);
+    });
+});
+
+describe("morphologyPass", () => {
+    it("matches direct erosion and dilation for every element", () => {
+        let seed = 1;
+        const mask = Uint8ClampedArray.from({ length: WIDTH * HEIGHT }, () => {
+            seed = (seed * 16807) % 2147483647;
+            return seed % 3 === 0 ? 0 : 255;
+        });
+
+        for (const shape of ["square", "cross", "disk"] as StructuringElementShape[]) {
+            for (const size of [3, 5, 7]) {
+                const spans = structuringElementSpans(shape, size);
+                for (const mode of ["erode", "dilate"] as const) {
+                    expect(morphologyPass(mask, WIDTH, HEIGHT, spans, mode)).toEqual(referencePass(mask, spans, mode));
+                }
+            }
+        }
+    });
+});
+
+describe("applyMorphology", () => {
+    const step = (operation: MorphologyStep["operation"]): MorphologyStep =>
+        ({ id: 0, operation, shape: "square", size: 3 });
+
+    it("removes specks by opening and keeps only them with top-hat", () => {
+        const { mask, specks } = squareWithSpecks();
+        const opened = applyMorphology(mask, WIDTH, HEIGHT, [step("open")]);
+        const tophat = applyMorphology(mask, WIDTH, HEIGHT, [step("tophat")]);
+
+        mask.forEach((value, idx) => {
+            const isSpeck = specks.includes(idx);
+            expect(opened[idx]).toBe(isSpeck ? 0 : value);
+            expect(tophat[idx]).toBe(isSpeck ? 255 : 0);
+        });
+    });
+
+    it("closes a one-pixel gap", () => {
+        const { mask } = squareWithSpecks();
+        for (let y = 8; y < 22; y++) mask[y * WIDTH + 20] = 0;
+        const closed = applyMorphology(mask, WIDTH, HEIGHT, [step("close")]);
+        for (let y = 8; y < 22; y++) expect(closed[y * WIDTH + 20]).toBe(255);
+    });
+
+    it("formats the chain of steps", () => {
+        expect(formatMorphologySteps([
+            { id: 1, operation: "close", shape: "disk", size: 5 },
+            { id: 2, operation: "open", shape: "square", size: 3 },
+        ])).toBe("Закриття (Диск 5) → Відкриття (Квадрат 3)");
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * Морфологічна обробка бінарних масок
+ */
+
+/**
+ * Морфологічна операція над бінарною маскою
+ * tophat - біле "top-hat" перетворення: маска мінус її відкриття (дрібні деталі)
+ */
+export type MorphologyOperation = "erode" | "dilate" | "open" | "close" | "tophat";
+
+/**
+ * Форма структурного елемента
+ */
+export type StructuringElementShape = "square" | "cross" | "disk";
+
+/**
+ * Крок морфологічної обробки; кроки виконуються в заданому користувачем порядку
+ * size - діаметр структурного елемента в пікселях (непарний)
+ */
+export interface MorphologyStep {
+    id: number;
+    operation: MorphologyOperation;
+    shape: StructuringElementShape;
+    size: number;
+}
+
+export const MORPHOLOGY_OPERATION_LABELS: Record<MorphologyOperation, string> = {
+    erode: "Ерозія",
+    dilate: "Дилатація",
+    open: "Відкриття",
+    close: "Закриття",
+    tophat: "Top-hat",
+};
+
+export const STRUCTURING_ELEMENT_LABELS: Record<StructuringElementShape, string> = {
+    square: "Квадрат",
+    cross: "Хрест",
+    disk: "Диск",
+};
+
+/**
+ * Заповнює внутрішні пустоти в об'єктах (fill holes)
+ * Алгоритм: знаходимо всі чорні області, що з'єднані з краями зображення (фон),
+ * всі інші чорні області - це "дірки" всередині об'єктів, їх заповнюємо білим
+ */
+export const fillHoles = (binary: Uint8ClampedArray, width: number, height: number): void => {
+    const visited = new Uint8Array(binary.length);
+
+    // Маркуємо всі чорні пікселі на краях як фон
+    const backgroundStack: number[] = [];
+
+    // Верхній та нижній краї
+    for (let x = 0; x < width; x++) {
+        const topIdx = x;
+        const bottomIdx = (height - 1) * width + x;
+        if (binary[topIdx] === 0 && !visited[topIdx]) {
+            backgroundStack.push(topIdx);
+        }
+        if (binary[bottomIdx] === 0 && !visited[bottomIdx]) {
+            backgroundStack.push(bottomIdx);
+        }
+    }
+
+    // Лівий та правий краї
+    for (let y = 0; y < height; y++) {
+        const leftIdx = y * width;
+        const rightIdx = y * width + (width - 1);
+        if (binary[leftIdx] === 0 && !visited[leftIdx]) {
+            backgroundStack.push(leftIdx);
+        }
+        if (binary[rightIdx] === 0 && !visited[rightIdx]) {
+            backgroundStack.push(rightIdx);
+        }
+    }
+
+    // Flood fill від країв - маркуємо весь зовнішній фон
+    while (backgroundStack.length > 0) {
+        const idx = backgroundStack.pop()!;
+        if (visited[idx] || binary[idx] !== 0) continue;
+
+        visited[idx] = 1;
+
+        const x = idx % width;
+        const y = Math.floor(idx / width);
+
+        // 4-сусідство
+        const neighbors = [
+            [0, -1], [1, 0], [0, 1], [-1, 0]
+        ];
+
+        for (const [dx, dy] of neighbors) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+                const nIdx = ny * width + nx;
+                if (!visited[nIdx] && binary[nIdx] === 0) {
+                    backgroundStack.push(nIdx);
+                }
+            }
+        }
+    }
+
+    //  Всі чорні пікселі, які НЕ відмічені як фон - це дірки, заповнюємо їх
+    for (let i = 0; i < binary.length; i++) {
+        if (binary[i] === 0 && !visited[i]) {
+            binary[i] = 255; // Заповнюємо дірку білим
+        }
+    }
+};
+
+/**
+ * Описує структурний елемент як набір горизонтальних відрізків:
+ * spans[dy + r] - напівширина рядка зі зміщенням dy (-1, якщо рядок порожній)
+ */
+export const structuringElementSpans = (shape: StructuringElementShape, size: number): number[] => {
+    const r = Math.floor(size / 2);
+    const spans: number[] = [];
+    for (let dy = -r; dy <= r; dy++) {
+        if (shape === "square") {
+            spans.push(r);
+        } else if (shape === "cross") {
+            spans.push(dy === 0 ? r : 0);
+        } else {
+            spans.push(Math.floor(Math.sqrt(r * r - dy * dy)));
+        }
+    }
+    return spans;
+};
+
+/**
+ * Бінарна ерозія або дилатація довільним структурним елементом з горизонтальних відрізків
+ * Кількість білих пікселів у відрізку рядка береться з префіксних сум за O(1),
+ * тому складність - O(пікселі × висота елемента) замість O(пікселі × площа елемента).
+ * Пікселі за межами зображення не враховуються
+ */
+export const morphologyPass = (
+    binary: Uint8ClampedArray,
+    width: number,
+    height: number,
+    spans: number[],
+    mode: "erode" | "dilate"
+): Uint8ClampedArray => {
+    const r = Math.floor(spans.length / 2);
+    const stride = width + 1;
+
+    // prefix[y * stride + x] - кількість білих пікселів у рядку y до стовпця x (не включно)
+    const prefix = new Int32Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            prefix[y * stride + x + 1] = prefix[y * stride + x] + (binary[y * width + x] === 255 ? 1 : 0);
+        }
+    }
+
+    const result = new Uint8ClampedArray(binary.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let value = mode === "erode";
+
+            for (let i = 0; i < spans.length; i++) {
+                const span = spans[i];
+                const ny = y + i - r;
+                if (span < 0 || ny < 0 || ny >= height) continue;
+
+                const x0 = Math.max(0, x - span);
+                const x1 = Math.min(width, x + span + 1);
+                const count = prefix[ny * stride + x1] - prefix[ny * stride + x0];
+
+                if (mode === "erode" && count < x1 - x0) {
+                    value = false;
+                    break;
+                }
+                if (mode === "dilate" && count > 0) {
+                    value = true;
+                    break;
+                }
+            }
+
+            result[y * width + x] = value ? 255 : 0;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Виконує ланцюжок морфологічних операцій у заданому порядку
+ * open = ерозія → дилатація (прибирає дрібні плями), close = дилатація → ерозія
+ * (закриває розриви контуру), tophat = маска мінус її відкриття
+ */
+export const applyMorphology = (
+    binary: Uint8ClampedArray,
+    width: number,
+    height: number,
+    steps: MorphologyStep[]
+): Uint8ClampedArray => {
+    let result = binary;
+
+    steps.forEach(({ operation, shape, size }) => {
+        const spans = structuringElementSpans(shape, size);
+        const erode = (data: Uint8ClampedArray) => morphologyPass(data, width, height, spans, "erode");
+        const dilate = (data: Uint8ClampedArray) => morphologyPass(data, width, height, spans, "dilate");
+
+        switch (operation) {
+            case "erode":
+                result = erode(result);
+                break;
+            case "dilate":
+                result = dilate(result);
+                break;
+            case "open":
+                result = dilate(erode(result));
+                break;
+            case "close":
+                result = erode(dilate(result));
+                break;
+            case "tophat": {
+                const opened = dilate(erode(result));
+                result = result.map((v, i) => (v === 255 && opened[i] === 0 ? 255 : 0));
+                break;
+            }
+        }
+    });
+
+    return result;
+};
+
+/**
+ * Текстовий опис ланцюжка морфологічних операцій: "Закриття (Диск 5) → Відкриття (Квадрат 3)"
+ */
+export const formatMorphologySteps = (steps: MorphologyStep[]): string =>
+    steps
+        .map(({ operation, shape, size }) =>
+            `${MORPHOLOGY_OPERATION_LABELS[operation]} (${STRUCTURING_ELEMENT_LABELS[shape]} ${size})`)
+        .join(" → ");
@@ -0,0 +1,228 @@
+/**
+ * Перспектива: гомографії, оцінка випрямленого чотирикутника та вирізання
+ * фрагмента з усуненням перспективи
+ */
+
+import { Point, orderCorners, analyzePolygon } from "@/lib/geometry";
+import { ramp } from "@/lib/fuzzy";
+
+// Вершини одиничного квадрата в порядку обходу, з якого будуються гомографії
+export const UNIT_SQUARE: Point[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+// Правдоподібні межі фокусної відстані камери відносно діагоналі зображення
+export const MIN_FOCAL_RATIO = 0.25;
+
+export const MAX_FOCAL_RATIO = 4;
+
+/**
+ * Оцінка перспективного спотворення чотирикутника
+ * homography - матриця 3×3 по рядках (h33 = 1), що переводить одиничний квадрат у вершини об'єкта
+ * sideRatio, angleDeviation - відношення сторін та найбільше відхилення кута від 90° після
+ * усунення перспективи (випрямлення)
+ * calibrated - випрямлено гомографією еталонного квадрата, позначеного користувачем;
+ * інакше - за моделлю камери з фокусною відстанню, оціненою з самого чотирикутника
+ */
+export interface PerspectiveEstimate {
+    homography: number[];
+    sideRatio: number;
+    angleDeviation: number;
+    calibrated: boolean;
+}
+
+/**
+ * Інтерполяція при вирізанні фрагментів з усуненням перспективи
+ */
+export type ResamplingMethod = "bilinear" | "bicubic";
+
+export const RESAMPLING_METHOD_LABELS: Record<ResamplingMethod, string> = {
+    bilinear: "Білінійна",
+    bicubic: "Бікубічна",
+};
+
+/**
+ * Гомографія (проективне перетворення), що переводить 4 точки from у 4 точки to
+ * Система 8 лінійних рівнянь (по два на кожну пару точок) для h11..h32 при h33 = 1
+ * розв'язується методом Гаусса з вибором головного елемента
+ * Повертає матрицю 3×3 по рядках або null, якщо три точки лежать на одній прямій
+ */
+export const computeHomography = (from: Point[], to: Point[]): number[] | null => {
+    const system: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        system.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        system.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < 8; row++) {
+            if (Math.abs(system[row][col]) > Math.abs(system[pivot][col])) pivot = row;
+        }
+        if (Math.abs(system[pivot][col]) < 1e-12) return null;
+        [system[col], system[pivot]] = [system[pivot], system[col]];
+
+        for (let row = 0; row < 8; row++) {
+            if (row === col) continue;
+            const factor = system[row][col] / system[col][col];
+            if (factor === 0) continue;
+            for (let k = col; k <= 8; k++) system[row][k] -= factor * system[col][k];
+        }
+    }
+
+    return [...system.map((row, i) => row[8] / row[i]), 1];
+};
+
+/**
+ * Обернена гомографія (приєднана матриця, нормована так, щоб h33 = 1)
+ */
+export const invertHomography = (h: number[]): number[] | null => {
+    const [a, b, c, d, e, f, g, k, l] = h;
+    const inverse = [
+        e * l - f * k, c * k - b * l, b * f - c * e,
+        f * g - d * l, a * l - c * g, c * d - a * f,
+        d * k - e * g, b * g - a * k, a * e - b * d,
+    ];
+    const det = a * inverse[0] + b * inverse[3] + c * inverse[6];
+    if (Math.abs(det) < 1e-12 || Math.abs(inverse[8]) < 1e-12) return null;
+
+    return inverse.map(value => value / inverse[8]);
+};
+
+export const applyHomography = (h: number[], p: Point): Point => {
+    const w = h[6] * p.x + h[7] * p.y + h[8];
+    return {
+        x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+        y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+    };
+};
+
+/**
+ * Оцінює, яким був би чотирикутник без перспективного спотворення
+ * - з еталоном: вершини переносяться гомографією, що переводить еталонний квадрат
+ *   в одиничний, - так випрямляється вся площина, на якій лежить еталон
+ * - без еталона: модель камери з головною точкою в центрі зображення та невідомою
+ *   фокусною відстанню f. Стовпці h1, h2 гомографії одиничного квадрата після
+ *   множення на K⁻¹ = diag(1/f, 1/f, 1) - це сторони квадрата у просторі, тож f
+ *   знаходиться з їхньої перпендикулярності, а відношення їхніх довжин і є
+ *   справжнім відношенням сторін. Якщо f не визначається (майже афінна проекція)
+ *   або неправдоподібна, використовується f, рівна діагоналі зображення
+ */
+export const estimatePerspective = (
+    quad: Point[],
+    width: number,
+    height: number,
+    reference: Point[] | null
+): PerspectiveEstimate | null => {
+    const homography = computeHomography(UNIT_SQUARE, quad);
+    if (!homography) return null;
+
+    if (reference) {
+        const referenceHomography = computeHomography(UNIT_SQUARE, reference);
+        const rectify = referenceHomography && invertHomography(referenceHomography);
+        if (!rectify) return null;
+
+        const { sideRatio, maxAngleDeviation } = analyzePolygon(quad.map(p => applyHomography(rectify, p)));
+        return { homography, sideRatio, angleDeviation: maxAngleDeviation, calibrated: true };
+    }
+
+    const centered = computeHomography(UNIT_SQUARE, quad.map(p => ({ x: p.x - width / 2, y: p.y - height / 2 })));
+    if (!centered) return null;
+
+    const diagonal = Math.hypot(width, height);
+    const focalSquared = -(centered[0] * centered[1] + centered[3] * centered[4]) / (centered[6] * centered[7]);
+    const focal = Number.isFinite(focalSquared) &&
+        focalSquared > (MIN_FOCAL_RATIO * diagonal) ** 2 &&
+        focalSquared < (MAX_FOCAL_RATIO * diagonal) ** 2
+        ? Math.sqrt(focalSquared)
+        : diagonal;
+
+    const a = [centered[0] / focal, centered[3] / focal, centered[6]];
+    const b = [centered[1] / focal, centered[4] / focal, centered[7]];
+    const lengthA = Math.hypot(a[0], a[1], a[2]);
+    const lengthB = Math.hypot(b[0], b[1], b[2]);
+    const cos = (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / (lengthA * lengthB || 1);
+    const angle = Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
+
+    return {
+        homography,
+        sideRatio: Math.min(lengthA, lengthB) / Math.max(lengthA, lengthB, 1e-12),
+        angleDeviation: Math.abs(angle - 90),
+        calibrated: false,
+    };
+};
+
+/**
+ * Ваги інтерполяційних ядер: трикутне для білінійної та ядро Кіза (a = -0.5)
+ * для бікубічної інтерполяції
+ */
+export const resamplingWeight = (t: number, method: ResamplingMethod): number => {
+    const d = Math.abs(t);
+    if (method === "bilinear") return Math.max(0, 1 - d);
+    if (d <= 1) return 1.5 * d ** 3 - 2.5 * d ** 2 + 1;
+    if (d < 2) return -0.5 * d ** 3 + 2.5 * d ** 2 - 4 * d + 2;
+    return 0;
+};
+
+/**
+ * Вирізає чотирикутник із зображення у квадратний фрагмент size×size з усуненням
+ * перспективи: кожен піксель фрагмента переноситься гомографією одиничного квадрата
+ * на вихідне зображення, колір інтерполюється по сусідніх пікселях (2×2 для
+ * білінійної, 4×4 для бікубічної), за межами зображення повторюються крайові пікселі
+ */
+export const warpToSquare = (
+    source: ImageData,
+    quad: Point[],
+    size: number,
+    method: ResamplingMethod
+): Uint8ClampedArray | null => {
+    const homography = computeHomography(UNIT_SQUARE, orderCorners(quad));
+    if (!homography) return null;
+
+    const { width, height, data } = source;
+    const pixels = new Uint8ClampedArray(size * size * 4);
+    const taps = method === "bicubic" ? 2 : 1;
+    const sums = [0, 0, 0, 0];
+
+    for (let v = 0; v < size; v++) {
+        for (let u = 0; u < size; u++) {
+            const p = applyHomography(homography, { x: (u + 0.5) / size, y: (v + 0.5) / size });
+            const x0 = Math.floor(p.x);
+            const y0 = Math.floor(p.y);
+            sums.fill(0);
+
+            for (let j = 1 - taps; j <= taps; j++) {
+                const wy = resamplingWeight(p.y - (y0 + j), method);
+                if (wy === 0) continue;
+                const sy = Math.max(0, Math.min(height - 1, y0 + j));
+
+                for (let i = 1 - taps; i <= taps; i++) {
+                    const w = wy * resamplingWeight(p.x - (x0 + i), method);
+                    if (w === 0) continue;
+                    const sx = Math.max(0, Math.min(width - 1, x0 + i));
+                    const o = (sy * width + sx) * 4;
+                    for (let c = 0; c < 4; c++) sums[c] += w * data[o + c];
+                }
+            }
+
+            const o = (v * size + u) * 4;
+            for (let c = 0; c < 4; c++) pixels[o + c] = Math.round(sums[c]);
+        }
+    }
+
+    return pixels;
+};
+
+/**
+ * Рядки матриці гомографії для таблиці результатів
+ */
+export const formatHomography = (h: number[]): string[] =>
+    [0, 3, 6].map(row => h.slice(row, row + 3).map(value => value.toFixed(3)).join("  "));
+
+/**
+ * Впевненість (0-1), що чотирикутник - квадрат у перспективі: за відношенням сторін
+ * та відхиленням кутів після випрямлення. Значення 0.5 відповідає допускам
+ * classifyQuadrilateral: сторони відрізняються на 15%, кути - на 10°
+ */
+export const perspectiveScore = (estimate: PerspectiveEstimate): number =>
+    Math.min(ramp(estimate.sideRatio, 0.7, 1), ramp(estimate.angleDeviation, 20, 0));
@@ -0,0 +1,102 @@
+/**
+ * Ознаки та класифікація фігур на растеризованих масках
+ */
+
+import { describe, expect, it } from "vitest";
+import { findContours } from "@/lib/contours";
+import { calculateFeatures, squarenessScore, classifyShape, classifyQuadrilateral } from "@/lib/shapes";
+import { regularPolygon } from "@/lib/geometry";
+import { rasterize, squareMask, polygonMask } from "@/test/masks";
+
+const SIZE = 160;
+const CENTER = { x: SIZE / 2, y: SIZE / 2 };
+
+const featuresOf = (mask: Uint8ClampedArray) => {
+    const [contour] = findContours(mask, SIZE, SIZE);
+    return calculateFeatures(contour, SIZE, SIZE, mask);
+};
+
+describe("squarenessScore", () => {
+    it("accepts sharp squares at any angle", () => {
+        for (const side of [30, 50, 80]) {
+            for (const angle of [0, 10, 20, 30, 45]) {
+                const features = featuresOf(squareMask(SIZE, SIZE, CENTER, side, angle));
+                expect(features.roundness).toBeLessThan(0.03);
+                expect(squarenessScore(features)).toBeGreaterThan(0.9);
+                expect(classifyShape(features, 0.5)).toBe("square");
+            }
+        }
+    });
+
+    it("is the weakest feature membership, one half at the former hard thresholds", () => {
+        const square = featuresOf(squareMask(SIZE, SIZE, CENTER, 60, 0));
+        expect(squarenessScore(square)).toBe(1);
+
+        const thresholds: Partial<typeof square>[] = [
+            { rectRatio: 0.85 },
+            { rectFill: 0.85 },
+            { elongation: 0.16 },
+            { sideRatio: 0.8 },
+            { maxAngleDeviation: 15 },
+            { roundness: 0.05 },
+        ];
+        thresholds.forEach(change => {
+            expect(squarenessScore({ ...square, ...change })).toBeCloseTo(0.5);
+        });
+
+        expect(squarenessScore({ ...square, vertexCount: 5 })).toBe(0.25);
+        expect(squarenessScore({ ...square, vertexCount: 6 })).toBe(0);
+        expect(squarenessScore({ ...square, rectRatio: 0.85, sideRatio: 0.7 })).toBeCloseTo(0.25);
+    });
+
+    it("rejects squares with rounded corners", () => {
+        for (const side of [30, 50, 80]) {
+            for (const angle of [0, 10, 20, 30, 45]) {
+                const features = featuresOf(squareMask(SIZE, SIZE, CENTER, side, angle, 0.2 * side));
+                expect(squarenessScore(features)).toBeLessThan(0.5);
+                expect(classifyShape(features, 0.5)).not.toBe("square");
+            }
+        }
+    });
+});
+
+describe("classifyShape", () => {
+    it("tells regular polygons from circles by their corners", () => {
+        for (const diameter of [30, 50, 80, 120]) {
+            const radius = diameter / 2;
+            const circle = rasterize(SIZE, SIZE, (x, y) => Math.hypot(x - CENTER.x, y - CENTER.y) <= radius);
+            expect(classifyShape(featuresOf(circle), 0.5)).toBe("circle");
+
+            for (const sides of [6, 8]) {
+                for (const angle of [0, 10]) {
+                    const cos = Math.cos(angle * Math.PI / 180);
+                    const sin = Math.sin(angle * Math.PI / 180);
+                    const vertices = regularPolygon(sides).map(p => ({
+                        x: CENTER.x + radius * (p.x * cos - p.y * sin),
+                        y: CENTER.y + radius * (p.x * sin + p.y * cos),
+                    }));
+                    expect(classifyShape(featuresOf(polygonMask(SIZE, SIZE, vertices)), 0.5)).toBe("polygon");
+                }
+            }
+        }
+    });
+});
+
+describe("classifyQuadrilateral", () => {
+    const quad = (...coordinates: number[]) =>
+        [0, 2, 4, 6].map(i => ({ x: coordinates[i], y: coordinates[i + 1] }));
+
+    it("names each kind of quadrilateral", () => {
+        expect(classifyQuadrilateral(quad(0, 0, 40, 0, 40, 40, 0, 40))).toBe("square");
+        expect(classifyQuadrilateral(quad(0, 0, 80, 0, 80, 40, 0, 40))).toBe("rectangle");
+        expect(classifyQuadrilateral(quad(0, 20, 30, 0, 60, 20, 30, 40))).toBe("rhombus");
+        expect(classifyQuadrilateral(quad(0, 0, 60, 0, 80, 30, 20, 30))).toBe("parallelogram");
+        expect(classifyQuadrilateral(quad(0, 0, 80, 0, 60, 30, 20, 30))).toBe("trapezoid");
+        expect(classifyQuadrilateral(quad(0, 20, 20, 0, 70, 20, 20, 40))).toBe("kite");
+        expect(classifyQuadrilateral(quad(0, 0, 70, 10, 60, 50, 10, 30))).toBe("quadrilateral");
+    });
+
+    it("tolerates small deviations from equal sides and right angles", () => {
+        expect(classifyQuadrilateral(quad(0, 0, 42, 1, 41, 40, -1, 39))).toBe("square");
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * Ознаки об'єкта та класифікація фігур
+ */
+
+import {
+    Point,
+    POLYGON_EPSILON_RATIO,
+    polygonArea,
+    fitQuadrilateral,
+    measurePolygon,
+    convexHull,
+    minAreaRect,
+    getBoundaryLength,
+    simplifyPolygon,
+    analyzePolygon,
+    cornerRoundness,
+} from "@/lib/geometry";
+import { ramp } from "@/lib/fuzzy";
+import { normalizeMoments, huInvariants } from "@/lib/moments";
+import { Contour } from "@/lib/contours";
+import { ChainCode, encodeChainCode, estimatePerimeter } from "@/lib/chainCode";
+import { ellipticFourierDescriptors } from "@/lib/fourier";
+
+/**
+ * Клас фігури, який присвоює класифікатор кожному об'єкту
+ * Чотирикутники додатково розрізняються: ромб, паралелограм, трапеція,
+ * дельтоїд та неправильний чотирикутник (quadrilateral)
+ * perspectiveSquare - чотирикутник, що після усунення перспективи стає квадратом
+ * polygon - компактний многокутник з п'ятьма й більше гострими кутами (шести-, восьмикутник)
+ */
+export type ShapeClass =
+    | "square"
+    | "perspectiveSquare"
+    | "rectangle"
+    | "rhombus"
+    | "parallelogram"
+    | "trapezoid"
+    | "kite"
+    | "quadrilateral"
+    | "circle"
+    | "triangle"
+    | "polygon"
+    | "unknown";
+
+/**
+ * Назви, маркери (кількість вершин) та кольори маркерів для кожного класу фігур
+ */
+export const SHAPE_CLASSES: Record<ShapeClass, { name: string; plural: string; marker: string; color: string }> = {
+    square: { name: "Квадрат", plural: "квадрати", marker: "4", color: "red" },
+    perspectiveSquare: { name: "Квадрат у перспективі", plural: "квадрати в перспективі", marker: "4H", color: "#e11d48" },
+    rectangle: { name: "Прямокутник", plural: "прямокутники", marker: "4R", color: "#f97316" },
+    rhombus: { name: "Ромб", plural: "ромби", marker: "4Rh", color: "#a855f7" },
+    parallelogram: { name: "Паралелограм", plural: "паралелограми", marker: "4P", color: "#db2777" },
+    trapezoid: { name: "Трапеція", plural: "трапеції", marker: "4T", color: "#0891b2" },
+    kite: { name: "Дельтоїд", plural: "дельтоїди", marker: "4K", color: "#ca8a04" },
+    quadrilateral: { name: "Неправильний чотирикутник", plural: "неправильні чотирикутники", marker: "4?", color: "#57534e" },
+    circle: { name: "Коло", plural: "кола", marker: "0", color: "#2563eb" },
+    triangle: { name: "Трикутник", plural: "трикутники", marker: "3", color: "#16a34a" },
+    polygon: { name: "Многокутник", plural: "многокутники", marker: "5+", color: "#0d9488" },
+    unknown: { name: "Невідомо", plural: "невідомі", marker: "?", color: "#737373" },
+};
+
+/**
+ * Обчислює геометричні характеристики об'єкта для класифікації
+ */
+export const calculateFeatures = (contour: Contour, width: number, height: number, binaryData: Uint8ClampedArray) => {
+    // Площа в межах зовнішнього контуру: для контурної фігури враховуємо і пустоту,
+    // щоб форму оцінювати так само, як для заповненої
+    const area = contour.stats.area + contour.holeArea;
+
+    // Контурна фігура: пустоти займають помітну частину площі
+    const outlined = contour.holeArea / area > 0.3;
+
+    // Периметр: сума оцінок довжини зовнішньої та внутрішніх меж за ланцюговими кодами
+    // (кількість пікселів межі занижує довжину діагональних ділянок, тобто залежить від повороту)
+    const chainCodes: ChainCode[] = [contour.outer, ...contour.holes].map((boundary, index) => ({
+        start: boundary[0],
+        codes: encodeChainCode(boundary),
+        hole: index > 0,
+    }));
+    const perimeter = chainCodes.reduce((sum, { codes }) => sum + estimatePerimeter(codes), 0);
+
+    // Нормовані центральні моменти та інваріанти Ху області в межах зовнішньої межі
+    const normalizedMoments = normalizeMoments(contour.moments, area);
+    const huMoments = huInvariants(normalizedMoments);
+
+    // Витягнутість за моментами другого порядку: √φ2 / φ1 = (λ1 - λ2) / (λ1 + λ2),
+    // де λ - власні значення матриці інерції (головні осі еліпса інерції)
+    // 0 для кола, квадрата та інших фігур з рівними головними осями, близько до 1 для смужки
+    const elongation = huMoments[0] > 0 ? Math.sqrt(huMoments[1]) / huMoments[0] : 1;
+
+    // Еліптичні дескриптори Фур'є зовнішньої межі для порівняння з еталонами
+    const fourier = ellipticFourierDescriptors(contour.outer);
+
+    // Спрощений полігон межі: кількість вершин, рівність сторін та кути
+    const boundaryLength = getBoundaryLength(contour.outer);
+    const polygon = simplifyPolygon(contour.outer, POLYGON_EPSILON_RATIO * boundaryLength);
+    const { sideRatio, maxAngleDeviation } = analyzePolygon(polygon);
+    const vertexCount = polygon.length;
+
+    // Наскільки межа відходить від вершин полігона (заокруглені кути)
+    const roundness = cornerRoundness(contour.outer, polygon);
+
+    // Опукла оболонка та мінімальний повернутий прямокутник - не залежать від кута повороту
+    const hull = convexHull(contour.outer);
+    const minRect = minAreaRect(hull);
+
+    // Співвідношення сторін повернутого прямокутника (1 для квадрата)
+    const rectRatio = Math.min(minRect.width, minRect.height) / Math.max(minRect.width, minRect.height);
+
+    // Яку частину повернутого прямокутника займає об'єкт (≈1 для квадрата, π/4 для кола)
+    const rectFill = area / (minRect.width * minRect.height);
+
+    // Орієнтація в межах [0°, 90°): для квадрата сторони рівноправні
+    const orientation = ((minRect.angle % 90) + 90) % 90;
+
+    // Наближення об'єкта чотирикутником та частка його площі, яку займає об'єкт
+    const quad = fitQuadrilateral(hull);
+    const quadFill = quad ? area / Math.max(1, polygonArea(quad)) : 0;
+
+    return {
+        area, perimeter, chainCodes, normalizedMoments, huMoments, elongation, fourier,
+        polygon, vertexCount, sideRatio, maxAngleDeviation, roundness,
+        hull, minRect, rectRatio, rectFill, orientation,
+        quad, quadFill, outlined
+    };
+};
+
+/**
+ * Впевненість (0-1), що об'єкт - квадрат
+ * Кожна ознака перетворюється функцією належності, що дорівнює 0.5 саме на
+ * колишньому жорсткому порозі, а впевненість - найслабша з них (нечітке "і"),
+ * тож поріг прийняття 0.5 відповідає попередньому правилу "усі умови виконані":
+ * - повернутий прямокутник майже квадратний (rectRatio ≈ 0.85) і заповнений
+ *   об'єктом (rectFill ≈ 0.85; коло заповнює лише π/4 ≈ 0.785, трикутник - близько половини)
+ * - спрощений полігон межі має 4 вершини (3 або 5 - 0.25, інакше 0)
+ * - сторони полігона відрізняються не більше ніж на 20%, кути - не більше ніж на 15°
+ * - кути гострі: ідеальна вершина відходить від межі не більше ніж на 5% сторони
+ *   (cornerRoundness; у квадрата з радіусом заокруглення 0.2 сторони - близько 8%)
+ * - головні осі інерції майже рівні: витягнутість за інваріантами Ху не більша за 0.16
+ *   (стільки ж, як у прямокутника зі співвідношенням сторін 0.85)
+ * Усі ознаки не залежать від кута повороту
+ */
+export const squarenessScore = (features: ReturnType<typeof calculateFeatures>): number => {
+    const { rectRatio, rectFill, vertexCount, sideRatio, maxAngleDeviation, roundness, elongation } = features;
+
+    return Math.min(
+        ramp(rectRatio, 0.75, 0.95),
+        ramp(elongation, 0.32, 0),
+        ramp(rectFill, 0.75, 0.95),
+        vertexCount === 4 ? 1 : Math.abs(vertexCount - 4) === 1 ? 0.25 : 0,
+        ramp(sideRatio, 0.6, 1),
+        ramp(maxAngleDeviation, 30, 0),
+        ramp(roundness, 0.08, 0.02)
+    );
+};
+
+/**
+ * Визначає клас фігури за характеристиками об'єкта
+ * - квадрат: впевненість squarenessScore не менша за поріг прийняття
+ * - чотирикутники: 4 вершини після спрощення, об'єкт заповнює вписаний чотирикутник;
+ *   тип визначає classifyQuadrilateral
+ * - трикутник: 3 вершини, заповнює близько половини повернутого прямокутника,
+ *   φ1 не менший, ніж у рівностороннього трикутника (1/(6√3) ≈ 0.192, у квадрата - 1/6)
+ * - коло: багато вершин після спрощення, майже квадратний прямокутник заповнено на ≈π/4,
+ *   φ1 відрізняється від 1/(2π) не більше ніж на 3% і головні осі інерції майже рівні
+ */
+export const classifyShape = (features: ReturnType<typeof calculateFeatures>, threshold: number): ShapeClass => {
+    const { rectRatio, rectFill, vertexCount, roundness, huMoments, elongation, quad, quadFill } = features;
+
+    if (squarenessScore(features) >= threshold) return "square";
+
+    if (vertexCount === 4 && quad && quadFill > 0.9) {
+        const quadClass = classifyQuadrilateral(quad);
+
+        // Геометрично квадратний чотирикутник з недостатньою впевненістю squarenessScore
+        // (наприклад, увігнутий об'єкт з квадратною оболонкою), не вважаємо квадратом
+        return quadClass === "square" ? "quadrilateral" : quadClass;
+    }
+
+    if (vertexCount === 3 && rectFill > 0.4 && rectFill < 0.65 && huMoments[0] > 0.18) {
+        return "triangle";
+    }
+
+    // Компактну фігуру з п'ятьма й більше вершинами моменти не відрізняють від кола
+    // (у правильного восьмикутника φ1 більший лише на 0.2%), тому вирішують кути:
+    // межа многокутника прилягає до вершин, а в кола лінії сусідніх сторін
+    // полігона перетинаються далеко від межі (cornerRoundness не менше 0.07)
+    if (vertexCount >= 5 && rectRatio > 0.85 && rectFill > 0.72 && rectFill < 0.85 &&
+        Math.abs(huMoments[0] * 2 * Math.PI - 1) < 0.03 && elongation < 0.1) {
+        return roundness < 0.06 ? "polygon" : "circle";
+    }
+
+    return "unknown";
+};
+
+/**
+ * Класифікація чотирикутника за сторонами та кутами
+ * Сторони вважаються рівними, якщо відрізняються не більше ніж на 15%,
+ * паралельними - якщо кут між ними менший за 8°, кут прямим - якщо відхилення менше 10°
+ */
+export const classifyQuadrilateral = (quad: Point[]): ShapeClass => {
+    const { sides, angles } = measurePolygon(quad);
+
+    const equal = (a: number, b: number) => Math.min(a, b) / Math.max(a, b) > 0.85;
+    const parallel = (i: number, j: number) => {
+        const a = quad[i], b = quad[(i + 1) % 4];
+        const c = quad[j], d = quad[(j + 1) % 4];
+        const ux = b.x - a.x, uy = b.y - a.y;
+        const vx = d.x - c.x, vy = d.y - c.y;
+        const sin = Math.abs(ux * vy - uy * vx) / (Math.hypot(ux, uy) * Math.hypot(vx, vy) || 1);
+        return sin < Math.sin(8 * Math.PI / 180);
+    };
+
+    const allSidesEqual = sides.every(side => equal(side, sides[0]));
+    const allRightAngles = angles.every(angle => Math.abs(angle - 90) < 10);
+    const firstPairParallel = parallel(0, 2);
+    const secondPairParallel = parallel(1, 3);
+
+    if (allSidesEqual && allRightAngles) return "square";
+    if (firstPairParallel && secondPairParallel && allRightAngles) return "rectangle";
+    if (allSidesEqual) return "rhombus";
+    if (firstPairParallel && secondPairParallel) return "parallelogram";
+    if (firstPairParallel || secondPairParallel) return "trapezoid";
+
+    // Дельтоїд: дві пари рівних суміжних сторін
+    if ((equal(sides[0], sides[1]) && equal(sides[2], sides[3])) ||
+        (equal(sides[1], sides[2]) && equal(sides[3], sides[0]))) {
+        return "kite";
+    }
+
+    return "quadrilateral";
+};
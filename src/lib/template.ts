@@ -0,0 +1,349 @@
+/**
+ * Пошук шаблону нормованою взаємною кореляцією в діапазоні масштабів і кутів повороту
+ */
+
+import { Point } from "@/lib/geometry";
+import { gaussianBlur } from "@/lib/filters";
+import { ramp } from "@/lib/fuzzy";
+
+/**
+ * Влучання шаблону: центр, масштаб і кут повороту (у градусах) шаблону на зображенні
+ * та нормована взаємна кореляція в цьому положенні
+ */
+export interface TemplateHit {
+    center: Point;
+    scale: number;
+    angle: number;
+    score: number;
+}
+
+// Діаметр шаблону (у пікселях) на грубому рівні пошуку
+export const TEMPLATE_COARSE_DIAMETER = 10;
+
+// Наскільки нижче порогу може бути кореляція кандидата на грубому рівні
+export const TEMPLATE_COARSE_MARGIN = 0.25;
+
+// Найбільша кількість кандидатів, що уточнюються на повній роздільності
+export const TEMPLATE_MAX_CANDIDATES = 200;
+
+// Множник між сусідніми масштабами шаблону
+export const TEMPLATE_SCALE_STEP = Math.pow(2, 0.25);
+
+/**
+ * Зменшує зображення в factor разів усередненням блоків factor×factor
+ */
+export const downsampleImage = (
+    data: ArrayLike<number>,
+    width: number,
+    height: number,
+    factor: number
+): { data: Float32Array; width: number; height: number } => {
+    const outWidth = Math.floor(width / factor);
+    const outHeight = Math.floor(height / factor);
+    const out = new Float32Array(outWidth * outHeight);
+    const norm = 1 / (factor * factor);
+
+    for (let y = 0; y < outHeight; y++) {
+        for (let x = 0; x < outWidth; x++) {
+            let sum = 0;
+            for (let dy = 0; dy < factor; dy++) {
+                const row = (y * factor + dy) * width + x * factor;
+                for (let dx = 0; dx < factor; dx++) sum += data[row + dx];
+            }
+            out[y * outWidth + x] = sum * norm;
+        }
+    }
+    return { data: out, width: outWidth, height: outHeight };
+};
+
+/**
+ * Шаблон, повернутий на angle градусів і масштабований у scale разів, на рівні
+ * зображення, зменшеного в factor разів. Опорна область - круг, вписаний у шаблон:
+ * він однаковий для всіх кутів, тож статистику вікон зображення можна рахувати один раз
+ * offsets - зсуви пікселів круга відносно центру (індекси в рядку рівня шириною levelWidth)
+ * weights - значення шаблону в цих пікселях з нульовим середнім і одиничною нормою
+ * (null для однорідного шаблону)
+ */
+export const sampleTemplate = (
+    template: Float32Array,
+    templateWidth: number,
+    templateHeight: number,
+    scale: number,
+    angle: number,
+    factor: number,
+    levelWidth: number
+): { radius: number; offsets: Int32Array; weights: Float32Array | null } => {
+    const step = factor / scale;
+    const radius = Math.max(1, Math.floor((Math.min(templateWidth, templateHeight) - 1) / 2 / step));
+    const centerX = (templateWidth - 1) / 2;
+    const centerY = (templateHeight - 1) / 2;
+    const cos = Math.cos(angle * Math.PI / 180) * step;
+    const sin = Math.sin(angle * Math.PI / 180) * step;
+
+    const offsets: number[] = [];
+    const values: number[] = [];
+    for (let oy = -radius; oy <= radius; oy++) {
+        for (let ox = -radius; ox <= radius; ox++) {
+            if (ox * ox + oy * oy > radius * radius) continue;
+
+            // Точка зображення center + o відповідає точці шаблону R(-angle)·o / scale
+            const tx = Math.min(templateWidth - 1, Math.max(0, centerX + cos * ox + sin * oy));
+            const ty = Math.min(templateHeight - 1, Math.max(0, centerY - sin * ox + cos * oy));
+            const x0 = Math.min(templateWidth - 2, Math.floor(tx));
+            const y0 = Math.min(templateHeight - 2, Math.floor(ty));
+            const fx = tx - x0;
+            const fy = ty - y0;
+            const i = y0 * templateWidth + x0;
+            values.push(
+                (template[i] * (1 - fx) + template[i + 1] * fx) * (1 - fy) +
+                (template[i + templateWidth] * (1 - fx) + template[i + templateWidth + 1] * fx) * fy
+            );
+            offsets.push(oy * levelWidth + ox);
+        }
+    }
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const norm = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0));
+    return {
+        radius,
+        offsets: Int32Array.from(offsets),
+        weights: norm > 1e-6 ? Float32Array.from(values, v => (v - mean) / norm) : null,
+    };
+};
+
+/**
+ * Нормована взаємна кореляція шаблону з вікном зображення з центром у пікселі index:
+ * Σ w·I / √(Σ I² - (Σ I)² / n); від -1 до 1, не залежить від яскравості та контрасту вікна
+ */
+export const correlateAt = (data: Float32Array, index: number, offsets: Int32Array, weights: Float32Array): number => {
+    let dot = 0, sum = 0, sumSq = 0;
+    for (let k = 0; k < offsets.length; k++) {
+        const v = data[index + offsets[k]];
+        dot += weights[k] * v;
+        sum += v;
+        sumSq += v * v;
+    }
+    const variance = sumSq - sum * sum / offsets.length;
+    return variance > 1e-6 ? dot / Math.sqrt(variance) : 0;
+};
+
+/**
+ * Пошук шаблону нормованою взаємною кореляцією (NCC) у діапазоні масштабів і кутів
+ * 1. Грубий перебір: для кожного масштабу зображення та шаблон зменшуються так, щоб
+ *    діаметр шаблону був близько TEMPLATE_COARSE_DIAMETER пікселів, і NCC рахується
+ *    в кожному положенні для всіх кутів; кандидати - локальні максимуми найкращої кореляції
+ * 2. Уточнення кандидатів рівнями від грубого до повної роздільності (положення, кут, масштаб)
+ * 3. Придушення немаксимумів серед кандидатів і серед уточнених влучань
+ * @param angleStep - крок кута в градусах (0-360°)
+ * @param threshold - мінімальна кореляція влучання
+ */
+export const matchTemplate = (
+    image: Uint8ClampedArray,
+    width: number,
+    height: number,
+    template: Uint8ClampedArray,
+    templateWidth: number,
+    templateHeight: number,
+    minScale: number,
+    maxScale: number,
+    angleStep: number,
+    threshold: number
+): TemplateHit[] => {
+    const diameter = Math.min(templateWidth, templateHeight);
+    const source = Float32Array.from(template);
+    const full = Float32Array.from(image);
+
+    const scales: number[] = [];
+    for (let scale = minScale; scale <= maxScale * 1.0001; scale *= TEMPLATE_SCALE_STEP) scales.push(scale);
+    const angles: number[] = [];
+    for (let angle = 0; angle < 360 - 1e-6; angle += angleStep) angles.push(angle);
+
+    // Шаблон розмивається перед зменшенням, як і зображення усередненням блоків
+    const blurCache = new Map<number, Float32Array>();
+    const blurredTemplate = (step: number) => {
+        if (step <= 1) return source;
+        const sigma = Math.round(3 * step) / 10;
+        if (!blurCache.has(sigma)) blurCache.set(sigma, gaussianBlur(source, templateWidth, templateHeight, sigma));
+        return blurCache.get(sigma)!;
+    };
+
+    // Придушення немаксимумів: з влучань, центри яких ближчі за радіус більшого, залишається найкраще
+    // sameScale - порівнювати лише влучання одного масштабу (для кандидатів: грубий рівень
+    // часто найвище оцінює хибний масштаб, тож кожен масштаб уточнюється окремо)
+    const suppressNonMaxima = (list: TemplateHit[], sameScale: boolean): TemplateHit[] => {
+        const kept: TemplateHit[] = [];
+        [...list].sort((a, b) => b.score - a.score).forEach(hit => {
+            const suppressed = kept.some(other =>
+                (!sameScale || other.scale === hit.scale) &&
+                Math.hypot(other.center.x - hit.center.x, other.center.y - hit.center.y) <
+                diameter * Math.max(other.scale, hit.scale) / 2
+            );
+            if (!suppressed) kept.push(hit);
+        });
+        return kept;
+    };
+
+    const levels = new Map<number, ReturnType<typeof downsampleImage>>();
+    const candidates: TemplateHit[] = [];
+
+    scales.forEach(scale => {
+        const factor = Math.max(1, Math.floor(diameter * scale / TEMPLATE_COARSE_DIAMETER));
+        if (!levels.has(factor)) levels.set(factor, downsampleImage(image, width, height, factor));
+        const level = levels.get(factor)!;
+        const blurred = blurredTemplate(factor / scale);
+
+        const variants = angles.map(angle =>
+            sampleTemplate(blurred, templateWidth, templateHeight, scale, angle, factor, level.width)
+        );
+        const { radius } = variants[0];
+        if (variants[0].weights === null || 2 * radius + 1 > Math.min(level.width, level.height)) return;
+
+        // Круг однаковий для всіх кутів: дисперсія вікна рахується один раз на положення,
+        // а для кожного кута - лише скалярний добуток
+        const { offsets } = variants[0];
+        const weights = variants.map(variant => variant.weights!);
+        const best = new Float32Array(level.width * level.height).fill(-1);
+        const bestAngle = new Float32Array(level.width * level.height);
+        for (let y = radius; y < level.height - radius; y++) {
+            for (let x = radius; x < level.width - radius; x++) {
+                const index = y * level.width + x;
+                let sum = 0, sumSq = 0;
+                for (let k = 0; k < offsets.length; k++) {
+                    const v = level.data[index + offsets[k]];
+                    sum += v;
+                    sumSq += v * v;
+                }
+                const variance = sumSq - sum * sum / offsets.length;
+                if (variance <= 1e-6) continue;
+                const deviation = Math.sqrt(variance);
+
+                for (let a = 0; a < weights.length; a++) {
+                    const w = weights[a];
+                    let dot = 0;
+                    for (let k = 0; k < offsets.length; k++) dot += w[k] * level.data[index + offsets[k]];
+                    const score = dot / deviation;
+                    if (score > best[index]) {
+                        best[index] = score;
+                        bestAngle[index] = angles[a];
+                    }
+                }
+            }
+        }
+
+        // Локальні максимуми 3×3 з запасом нижче порогу: на грубому рівні кореляція занижена
+        for (let y = radius; y < level.height - radius; y++) {
+            for (let x = radius; x < level.width - radius; x++) {
+                const index = y * level.width + x;
+                const score = best[index];
+                if (score < threshold - TEMPLATE_COARSE_MARGIN) continue;
+
+                let isPeak = true;
+                for (let dy = -1; dy <= 1 && isPeak; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        if ((dx || dy) && best[index + dy * level.width + dx] > score) {
+                            isPeak = false;
+                            break;
+                        }
+                    }
+                }
+                if (isPeak) {
+                    candidates.push({
+                        center: { x: x * factor + (factor - 1) / 2, y: y * factor + (factor - 1) / 2 },
+                        scale,
+                        angle: bestAngle[index],
+                        score,
+                    });
+                }
+            }
+        }
+    });
+
+    // Уточнення найсильніших кандидатів від грубого рівня до повної роздільності:
+    // на кожному рівні - перебір положень ±2 пікселі навколо попереднього, потім кута
+    // і масштабу на півкроку в обидва боки; крок кута та масштабу з рівнем зменшується вдвічі
+    const refined = suppressNonMaxima(candidates, true)
+        .slice(0, TEMPLATE_MAX_CANDIDATES)
+        .map(candidate => {
+            let { scale, angle } = candidate;
+            let { x, y } = candidate.center;
+            let score = -1;
+            let angleDelta = angleStep / 2;
+            let scaleDelta = Math.sqrt(TEMPLATE_SCALE_STEP);
+
+            let factor = Math.max(1, Math.floor(diameter * scale / TEMPLATE_COARSE_DIAMETER));
+            for (;;) {
+                if (!levels.has(factor)) levels.set(factor, downsampleImage(image, width, height, factor));
+                const level = factor === 1 ? { data: full, width, height } : levels.get(factor)!;
+                const variantFor = (s: number, a: number) =>
+                    sampleTemplate(blurredTemplate(factor / s), templateWidth, templateHeight, s, a, factor, level.width);
+                const evaluate = (px: number, py: number, v: ReturnType<typeof sampleTemplate>) =>
+                    v.weights && px >= v.radius && py >= v.radius && px < level.width - v.radius && py < level.height - v.radius
+                        ? correlateAt(level.data, py * level.width + px, v.offsets, v.weights)
+                        : -1;
+
+                let variant = variantFor(scale, angle);
+                let lx = Math.round((x - (factor - 1) / 2) / factor);
+                let ly = Math.round((y - (factor - 1) / 2) / factor);
+                score = evaluate(lx, ly, variant);
+
+                const searchPosition = () => {
+                    const cx = lx, cy = ly;
+                    for (let dy = -2; dy <= 2; dy++) {
+                        for (let dx = -2; dx <= 2; dx++) {
+                            const value = evaluate(cx + dx, cy + dy, variant);
+                            if (value > score) {
+                                score = value;
+                                lx = cx + dx;
+                                ly = cy + dy;
+                            }
+                        }
+                    }
+                };
+
+                searchPosition();
+                const baseScale = scale;
+                const baseAngle = angle;
+                [1 / scaleDelta, 1, scaleDelta].forEach(scaleStep => {
+                    [-angleDelta, 0, angleDelta].forEach(angleOffset => {
+                        if (scaleStep === 1 && angleOffset === 0) return;
+                        const v = variantFor(baseScale * scaleStep, baseAngle + angleOffset);
+                        const value = evaluate(lx, ly, v);
+                        if (value > score) {
+                            score = value;
+                            scale = baseScale * scaleStep;
+                            angle = baseAngle + angleOffset;
+                            variant = v;
+                        }
+                    });
+                });
+                searchPosition();
+
+                x = lx * factor + (factor - 1) / 2;
+                y = ly * factor + (factor - 1) / 2;
+                if (factor === 1) break;
+                factor = Math.max(1, Math.floor(factor / 2));
+                angleDelta /= 2;
+                scaleDelta = Math.sqrt(scaleDelta);
+            }
+
+            return { center: { x, y }, scale, angle: ((angle % 360) + 360) % 360, score };
+        })
+        .filter(hit => hit.score >= threshold);
+
+    return suppressNonMaxima(refined, false);
+};
+
+/**
+ * Впевненість влучання (0-1) за кореляцією: лінійна функція належності, що дорівнює
+ * 0.5 на порозі NCC threshold і 1 при повному збігу - як ознаки у squarenessScore,
+ * що дорівнюють 0.5 на колишніх жорстких порогах. Тож поріг прийняття 0.5 залишає
+ * саме влучання з кореляцією не нижчою за threshold
+ */
+export const templateConfidence = (score: number, threshold: number): number =>
+    ramp(score, 2 * threshold - 1, 1);
+
+/**
+ * Найменша кореляція, за якої templateConfidence не нижча за поріг прийняття acceptance
+ */
+export const minTemplateScore = (threshold: number, acceptance: number): number =>
+    2 * threshold - 1 + acceptance * 2 * (1 - threshold);
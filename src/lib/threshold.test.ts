@@ -0,0 +1,110 @@
+/**
+ * Глобальні пороги за гістограмою, бінаризація з інверсією фону
+ * та локальні пороги на нерівномірно освітленому зображенні
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+    computeHistogram,
+    selectThreshold,
+    otsuThreshold,
+    triangleThreshold,
+    isodataThreshold,
+    toBinary,
+    toAdaptiveBinary,
+    DEFAULT_LOCAL_K,
+    LocalThresholdMethod,
+} from "@/lib/threshold";
+
+/**
+ * Гістограма з нормальних "горбів": для кожного - центр, розкид і кількість пікселів
+ */
+const mixtureHistogram = (...modes: [number, number, number][]): Uint32Array => {
+    const histogram = new Uint32Array(256);
+    modes.forEach(([center, spread, count]) => {
+        const weights = Array.from({ length: 256 }, (_, t) => Math.exp(-((t - center) ** 2) / (2 * spread * spread)));
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        weights.forEach((w, t) => {
+            histogram[t] += Math.round(count * w / total);
+        });
+    });
+    return histogram;
+};
+
+describe("global thresholds", () => {
+    it("split a bimodal histogram in the gap between its modes", () => {
+        // Горби займають 60 ± 30 та 190 ± 36: будь-який поріг між ними розділяє класи
+        const histogram = mixtureHistogram([60, 10, 6000], [190, 12, 4000]);
+        for (const threshold of [otsuThreshold(histogram), isodataThreshold(histogram)]) {
+            expect(threshold).toBeGreaterThan(90);
+            expect(threshold).toBeLessThan(154);
+        }
+    });
+
+    it("puts the triangle threshold at the foot of a dominant background peak", () => {
+        const histogram = mixtureHistogram([40, 8, 20000], [160, 40, 1500]);
+        const threshold = triangleThreshold(histogram);
+        expect(threshold).toBeGreaterThan(55);
+        expect(threshold).toBeLessThan(110);
+    });
+
+    it("uses the manual threshold for the fixed method", () => {
+        const histogram = mixtureHistogram([60, 10, 6000], [190, 12, 4000]);
+        expect(selectThreshold(histogram, "fixed", 77)).toBe(77);
+        expect(selectThreshold(histogram, "otsu", 77)).toBe(otsuThreshold(histogram));
+    });
+});
+
+describe("toBinary", () => {
+    it("makes objects white on both dark and bright backgrounds", () => {
+        const width = 20;
+        const height = 20;
+        const inside = (i: number) => {
+            const x = i % width;
+            const y = Math.floor(i / width);
+            return x >= 5 && x < 15 && y >= 5 && y < 15;
+        };
+        const dark = Uint8ClampedArray.from({ length: width * height }, (_, i) => inside(i) ? 200 : 30);
+        const bright = dark.map(v => 255 - v);
+
+        for (const gray of [dark, bright]) {
+            const threshold = otsuThreshold(computeHistogram(gray));
+            const binary = toBinary(gray, threshold, width, height, false);
+            binary.forEach((value, i) => expect(value).toBe(inside(i) ? 255 : 0));
+        }
+    });
+});
+
+describe("toAdaptiveBinary", () => {
+    // Світлий фон, освітлення якого падає зліва направо з 250 до 130,
+    // і темні квадрати з 40% яскравості фону навколо
+    const width = 160;
+    const height = 80;
+    const inside = (i: number) => {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        return x % 40 >= 10 && x % 40 < 30 && y >= 30 && y < 50;
+    };
+    const gray = Uint8ClampedArray.from({ length: width * height }, (_, i) => {
+        const light = 250 - 120 * (i % width) / (width - 1);
+        return inside(i) ? light * 0.4 : light;
+    });
+    const binarize = (method: LocalThresholdMethod) =>
+        toAdaptiveBinary(gray, method, 31, DEFAULT_LOCAL_K[method], width, height, false);
+
+    it("recovers every square where a global threshold cannot", () => {
+        const global = toBinary(gray, otsuThreshold(computeHistogram(gray)), width, height, false);
+        expect(global.some((value, i) => value !== (inside(i) ? 255 : 0))).toBe(true);
+
+        for (const method of ["mean-c", "sauvola"] as LocalThresholdMethod[]) {
+            binarize(method).forEach((value, i) => expect(value).toBe(inside(i) ? 255 : 0));
+        }
+    });
+
+    it("keeps the squares with Niblack, which also marks background below the local mean", () => {
+        const binary = binarize("niblack");
+        binary.forEach((value, i) => {
+            if (inside(i)) expect(value).toBe(255);
+        });
+    });
+});
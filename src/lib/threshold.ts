@@ -0,0 +1,358 @@
+/**
+ * Бінаризація: глобальні пороги за гістограмою та локальні (адаптивні) методи
+ */
+
+import { fillHoles } from "@/lib/morphology";
+
+/**
+ * Метод бінаризації
+ * fixed - порогове значення задає користувач, otsu/triangle/isodata обчислюють
+ * глобальний поріг з гістограми, mean-c/sauvola/niblack - локальні (адаптивні) пороги
+ */
+export type ThresholdMethod = "fixed" | "otsu" | "triangle" | "isodata" | "mean-c" | "sauvola" | "niblack";
+
+/**
+ * Локальні методи бінаризації (поріг обчислюється у вікні навколо кожного пікселя)
+ */
+export type LocalThresholdMethod = Extract<ThresholdMethod, "mean-c" | "sauvola" | "niblack">;
+
+export const THRESHOLD_METHOD_LABELS: Record<ThresholdMethod, string> = {
+    fixed: "Фіксований поріг",
+    otsu: "Оцу (Otsu)",
+    triangle: "Трикутник (Triangle)",
+    isodata: "Isodata",
+    "mean-c": "Адаптивний: середнє - C",
+    sauvola: "Адаптивний: Sauvola",
+    niblack: "Адаптивний: Niblack",
+};
+
+// Типові значення параметра k для локальних методів (для mean-c це константа C)
+export const DEFAULT_LOCAL_K: Record<LocalThresholdMethod, number> = {
+    "mean-c": 10,
+    sauvola: 0.34,
+    niblack: -0.2,
+};
+
+export const isLocalThresholdMethod = (method: ThresholdMethod): method is LocalThresholdMethod =>
+    method in DEFAULT_LOCAL_K;
+
+/**
+ * Будує гістограму яскравості (256 рівнів) зображення у відтінках сірого
+ */
+export const computeHistogram = (grayData: Uint8ClampedArray): Uint32Array => {
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < grayData.length; i++) {
+        histogram[grayData[i]]++;
+    }
+    return histogram;
+};
+
+/**
+ * Повертає поріг бінаризації для вибраного глобального методу
+ * manualThreshold - поріг для методу "fixed"
+ */
+export const selectThreshold = (histogram: Uint32Array, method: ThresholdMethod, manualThreshold: number): number => {
+    switch (method) {
+        case "otsu":
+            return otsuThreshold(histogram);
+        case "triangle":
+            return triangleThreshold(histogram);
+        case "isodata":
+            return isodataThreshold(histogram);
+        default:
+            return manualThreshold;
+    }
+};
+
+/**
+ * Метод Оцу: перебирає всі пороги та обирає той,
+ * що максимізує міжкласову дисперсію (фон / об'єкти)
+ */
+export const otsuThreshold = (histogram: Uint32Array): number => {
+    let total = 0;
+    let sumAll = 0;
+    for (let t = 0; t < 256; t++) {
+        total += histogram[t];
+        sumAll += t * histogram[t];
+    }
+
+    let weightBackground = 0;
+    let sumBackground = 0;
+    let bestThreshold = 0;
+    let bestVariance = -1;
+
+    for (let t = 0; t < 256; t++) {
+        weightBackground += histogram[t];
+        if (weightBackground === 0) continue;
+
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+
+        sumBackground += t * histogram[t];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sumAll - sumBackground) / weightForeground;
+
+        // Міжкласова дисперсія: w0 × w1 × (μ0 - μ1)²
+        const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            bestThreshold = t;
+        }
+    }
+
+    return bestThreshold;
+};
+
+/**
+ * Метод трикутника: проводить пряму від піку гістограми до її найдальшого
+ * ненульового краю та обирає рівень з максимальною відстанню до цієї прямої.
+ * Добре працює, коли фон займає більшу частину зображення
+ */
+export const triangleThreshold = (histogram: Uint32Array): number => {
+    let first = 0;
+    while (first < 255 && histogram[first] === 0) first++;
+    let last = 255;
+    while (last > 0 && histogram[last] === 0) last--;
+    if (first >= last) return first;
+
+    let peak = first;
+    for (let t = first; t <= last; t++) {
+        if (histogram[t] > histogram[peak]) peak = t;
+    }
+
+    // Пряму будуємо в бік довшого "хвоста" гістограми
+    const towardsEnd = last - peak >= peak - first;
+    const end = towardsEnd ? last : first;
+    if (end === peak) return peak;
+
+    const dx = end - peak;
+    const dy = histogram[end] - histogram[peak];
+    const norm = Math.sqrt(dx * dx + dy * dy);
+
+    let bestThreshold = peak;
+    let bestDistance = -1;
+    const from = Math.min(peak, end);
+    const to = Math.max(peak, end);
+
+    for (let t = from; t <= to; t++) {
+        // Відстань від точки (t, h[t]) до прямої через (peak, h[peak]) та (end, h[end])
+        const distance = Math.abs(dy * (t - peak) - dx * (histogram[t] - histogram[peak])) / norm;
+        if (distance > bestDistance) {
+            bestDistance = distance;
+            bestThreshold = t;
+        }
+    }
+
+    // Поріг лежить по той бік піку, де знаходиться хвіст (об'єкти)
+    return towardsEnd ? bestThreshold : Math.max(0, bestThreshold - 1);
+};
+
+/**
+ * Метод Isodata (Ridler–Calvard): ітеративно ставить поріг посередині
+ * між середніми яскравостями двох класів, доки він не стабілізується
+ */
+export const isodataThreshold = (histogram: Uint32Array): number => {
+    let total = 0;
+    let sumAll = 0;
+    for (let t = 0; t < 256; t++) {
+        total += histogram[t];
+        sumAll += t * histogram[t];
+    }
+    if (total === 0) return 128;
+
+    let threshold = Math.round(sumAll / total);
+
+    for (let iteration = 0; iteration < 256; iteration++) {
+        let countLow = 0, sumLow = 0;
+        for (let t = 0; t <= threshold; t++) {
+            countLow += histogram[t];
+            sumLow += t * histogram[t];
+        }
+        const countHigh = total - countLow;
+        if (countLow === 0 || countHigh === 0) break;
+
+        const meanLow = sumLow / countLow;
+        const meanHigh = (sumAll - sumLow) / countHigh;
+        const next = Math.floor((meanLow + meanHigh) / 2);
+
+        if (next === threshold) break;
+        threshold = next;
+    }
+
+    return threshold;
+};
+
+/**
+ * Бінаризація зображення з автоматичною інверсією
+ * Перевіряє краї зображення: якщо більше білих пікселів - інвертує
+ * keepHoles - не заповнювати внутрішні пустоти (для контурних та вкладених фігур)
+ */
+export const toBinary = (
+    grayData: Uint8ClampedArray,
+    threshold: number,
+    width: number,
+    height: number,
+    keepHoles: boolean
+): Uint8ClampedArray => {
+    const binary = new Uint8ClampedArray(grayData.length);
+    for (let i = 0; i < grayData.length; i++) {
+        binary[i] = grayData[i] > threshold ? 255 : 0;
+    }
+
+    // Підрахунок білих та чорних пікселів на краях зображення
+    let edgeWhite = 0;
+    let edgeBlack = 0;
+
+    // Верхній та нижній краї
+    for (let x = 0; x < width; x++) {
+        const topIdx = x;
+        const bottomIdx = (height - 1) * width + x;
+        if (binary[topIdx] === 255) edgeWhite++; else edgeBlack++;
+        if (binary[bottomIdx] === 255) edgeWhite++; else edgeBlack++;
+    }
+
+    // Лівий та правий краї
+    for (let y = 0; y < height; y++) {
+        const leftIdx = y * width;
+        const rightIdx = y * width + (width - 1);
+        if (binary[leftIdx] === 255) edgeWhite++; else edgeBlack++;
+        if (binary[rightIdx] === 255) edgeWhite++; else edgeBlack++;
+    }
+
+    // Якщо фон білий - інвертуємо зображення
+    if (edgeWhite > edgeBlack) {
+        for (let i = 0; i < binary.length; i++) {
+            binary[i] = binary[i] === 255 ? 0 : 255;
+        }
+    }
+
+    // Заповнення пустот (fill holes)
+    if (!keepHoles) {
+        fillHoles(binary, width, height);
+    }
+
+    return binary;
+};
+
+/**
+ * Будує інтегральні зображення суми та суми квадратів яскравостей.
+ * Розмір (width + 1) × (height + 1): перший рядок і стовпець нульові,
+ * тому суму будь-якого прямокутника можна отримати за 4 звернення
+ */
+export const buildIntegralImages = (
+    grayData: Uint8ClampedArray,
+    width: number,
+    height: number
+): { sum: Float64Array; sumSq: Float64Array } => {
+    const stride = width + 1;
+    const sum = new Float64Array(stride * (height + 1));
+    const sumSq = new Float64Array(stride * (height + 1));
+
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        let rowSumSq = 0;
+        for (let x = 0; x < width; x++) {
+            const v = grayData[y * width + x];
+            rowSum += v;
+            rowSumSq += v * v;
+            const idx = (y + 1) * stride + x + 1;
+            sum[idx] = sum[idx - stride] + rowSum;
+            sumSq[idx] = sumSq[idx - stride] + rowSumSq;
+        }
+    }
+
+    return { sum, sumSq };
+};
+
+/**
+ * Визначає, чи фон зображення світліший за середню яскравість.
+ * Порівнює середню яскравість крайових пікселів із середньою по всьому зображенню
+ */
+export const hasBrightBackground = (grayData: Uint8ClampedArray, width: number, height: number): boolean => {
+    let edgeSum = 0;
+    let edgeCount = 0;
+
+    for (let x = 0; x < width; x++) {
+        edgeSum += grayData[x] + grayData[(height - 1) * width + x];
+        edgeCount += 2;
+    }
+    for (let y = 0; y < height; y++) {
+        edgeSum += grayData[y * width] + grayData[y * width + (width - 1)];
+        edgeCount += 2;
+    }
+
+    let totalSum = 0;
+    for (let i = 0; i < grayData.length; i++) {
+        totalSum += grayData[i];
+    }
+
+    return edgeSum / edgeCount > totalSum / grayData.length;
+};
+
+/**
+ * Адаптивна (локальна) бінаризація
+ * Поріг для кожного пікселя обчислюється з середнього m та стандартного відхилення s
+ * у вікні windowSize × windowSize:
+ * - mean-c:  T = m - k (k - константа C)
+ * - sauvola: T = m × (1 + k × (s / 128 - 1))
+ * - niblack: T = m + k × s
+ * Формули розраховані на темні об'єкти на світлому фоні, тому зображення
+ * зі світлими об'єктами попередньо інвертується. Об'єкти на результаті - білі
+ */
+export const toAdaptiveBinary = (
+    grayData: Uint8ClampedArray,
+    method: LocalThresholdMethod,
+    windowSize: number,
+    k: number,
+    width: number,
+    height: number,
+    keepHoles: boolean
+): Uint8ClampedArray => {
+    const source = hasBrightBackground(grayData, width, height)
+        ? grayData
+        : grayData.map(v => 255 - v);
+
+    const { sum, sumSq } = buildIntegralImages(source, width, height);
+    const stride = width + 1;
+    const half = Math.max(1, Math.floor(windowSize / 2));
+    const binary = new Uint8ClampedArray(grayData.length);
+
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half);
+        const y1 = Math.min(height, y + half + 1);
+
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half);
+            const x1 = Math.min(width, x + half + 1);
+            const count = (x1 - x0) * (y1 - y0);
+
+            const a = y0 * stride + x0;
+            const b = y0 * stride + x1;
+            const c = y1 * stride + x0;
+            const d = y1 * stride + x1;
+
+            const mean = (sum[d] - sum[b] - sum[c] + sum[a]) / count;
+            const variance = (sumSq[d] - sumSq[b] - sumSq[c] + sumSq[a]) / count - mean * mean;
+            const deviation = Math.sqrt(Math.max(0, variance));
+
+            let threshold: number;
+            if (method === "mean-c") {
+                threshold = mean - k;
+            } else if (method === "sauvola") {
+                threshold = mean * (1 + k * (deviation / 128 - 1));
+            } else {
+                threshold = mean + k * deviation;
+            }
+
+            const idx = y * width + x;
+            binary[idx] = source[idx] < threshold ? 255 : 0;
+        }
+    }
+
+    // Великі однорідні об'єкти дають лише контур - внутрішню частину заповнюємо
+    if (!keepHoles) {
+        fillHoles(binary, width, height);
+    }
+
+    return binary;
+};
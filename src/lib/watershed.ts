@@ -0,0 +1,228 @@
+/**
+ * Розділення дотичних фігур: перетворення відстані та вододіл за маркерами
+ */
+
+import { MOORE_DIRECTIONS } from "@/lib/geometry";
+
+/**
+ * Точне евклідове перетворення відстаней (алгоритм Фельценшвальба–Хуттенлохера)
+ * Для кожного пікселя об'єкта повертає відстань до найближчого пікселя фону.
+ * Двовимірне перетворення розкладається на одновимірні проходи по стовпцях і рядках,
+ * кожен з яких будує нижню огинаючу парабол за лінійний час
+ */
+export const distanceTransform = (binary: Uint8ClampedArray, width: number, height: number): Float32Array => {
+    const INF = 1e20;
+    const squared = new Float64Array(width * height);
+    for (let i = 0; i < binary.length; i++) {
+        squared[i] = binary[i] === 255 ? INF : 0;
+    }
+
+    const size = Math.max(width, height);
+    const f = new Float64Array(size);
+    const d = new Float64Array(size);
+    const v = new Int32Array(size);
+    const z = new Float64Array(size + 1);
+
+    const transform1D = (n: number) => {
+        let k = 0;
+        v[0] = 0;
+        z[0] = -INF;
+        z[1] = INF;
+        for (let q = 1; q < n; q++) {
+            let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+            while (s <= z[k]) {
+                k--;
+                s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+            }
+            k++;
+            v[k] = q;
+            z[k] = s;
+            z[k + 1] = INF;
+        }
+        k = 0;
+        for (let q = 0; q < n; q++) {
+            while (z[k + 1] < q) k++;
+            d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+        }
+    };
+
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) f[y] = squared[y * width + x];
+        transform1D(height);
+        for (let y = 0; y < height; y++) squared[y * width + x] = d[y];
+    }
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) f[x] = squared[y * width + x];
+        transform1D(width);
+        for (let x = 0; x < width; x++) squared[y * width + x] = d[x];
+    }
+
+    const distance = new Float32Array(width * height);
+    for (let i = 0; i < distance.length; i++) {
+        distance[i] = Math.sqrt(squared[i]);
+    }
+    return distance;
+};
+
+/**
+ * Розділяє дотичні та перекриті об'єкти методом вододілу з маркерами на карті відстаней
+ * 1. Маркери: пікселі "затоплюються" від найбільшої відстані до найменшої, кожен локальний
+ *    максимум (центр фігури) започатковує басейн. Коли два басейни зустрічаються, вони
+ *    зливаються, якщо перешийок не вужчий за 70% від висоти меншого піку. Маркер басейну -
+ *    його ядро, де відстань не менша за 70% від піку.
+ * 2. Вододіл: від маркерів мітки поширюються чергою з пріоритетом за відстанню,
+ *    тож кожен піксель отримує мітку того ядра, від якого до нього дійшло затоплення.
+ * Повертає маску з розрізами вздовж ліній вододілу (8-сусідні пікселі різних басейнів
+ * не залишаються поруч) та позначку split для пікселів розділених об'єктів
+ */
+export const splitTouchingObjects = (
+    binary: Uint8ClampedArray,
+    width: number,
+    height: number
+): { mask: Uint8ClampedArray; split: Uint8Array } => {
+    const NECK_RATIO = 0.7;
+    const LEVELS_PER_PIXEL = 4;
+    const distance = distanceTransform(binary, width, height);
+
+    let foregroundCount = 0;
+    for (let i = 0; i < binary.length; i++) {
+        if (binary[i] === 255) foregroundCount++;
+    }
+    const foreground = new Int32Array(foregroundCount);
+    for (let i = 0, k = 0; i < binary.length; i++) {
+        if (binary[i] === 255) foreground[k++] = i;
+    }
+    const order = foreground.slice().sort((a, b) => distance[b] - distance[a]);
+
+    // Басейни з об'єднанням (union-find); peak - найбільша відстань у басейні
+    const basin = new Int32Array(binary.length).fill(-1);
+    const parent: number[] = [];
+    const peak: number[] = [];
+    const find = (b: number): number => {
+        while (parent[b] !== b) {
+            parent[b] = parent[parent[b]];
+            b = parent[b];
+        }
+        return b;
+    };
+
+    // Різні басейни серед восьми сусідів пікселя; буфер спільний для всіх пікселів
+    const roots = new Int32Array(MOORE_DIRECTIONS.length);
+
+    order.forEach(idx => {
+        const x = idx % width;
+        const y = Math.floor(idx / width);
+        const level = distance[idx];
+
+        let rootCount = 0;
+        let main = -1;
+        for (const [dx, dy] of MOORE_DIRECTIONS) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            const neighborBasin = basin[ny * width + nx];
+            if (neighborBasin === -1) continue;
+            const root = find(neighborBasin);
+            let seen = false;
+            for (let i = 0; i < rootCount && !seen; i++) seen = roots[i] === root;
+            if (seen) continue;
+            roots[rootCount++] = root;
+            if (main === -1 || peak[root] > peak[main]) main = root;
+        }
+
+        if (rootCount === 0) {
+            // Новий локальний максимум
+            parent.push(parent.length);
+            peak.push(level);
+            basin[idx] = parent.length - 1;
+            return;
+        }
+
+        // Найвищий басейн поглинає тих сусідів, перешийок з якими достатньо широкий
+        for (let i = 0; i < rootCount; i++) {
+            if (roots[i] !== main && level >= peak[roots[i]] * NECK_RATIO) {
+                parent[roots[i]] = main;
+            }
+        }
+        basin[idx] = main;
+    });
+
+    // Маркери - ядра басейнів
+    const labels = new Int32Array(binary.length).fill(-1);
+    foreground.forEach(idx => {
+        const root = find(basin[idx]);
+        if (distance[idx] >= peak[root] * NECK_RATIO) labels[idx] = root;
+    });
+
+    let top = 0;
+    foreground.forEach(idx => {
+        if (labels[idx] !== -1) top = Math.max(top, Math.round(distance[idx] * LEVELS_PER_PIXEL));
+    });
+
+    // Черга з пріоритетом за відстанню (кошики з кроком 0.25 пікселя, всередині - FIFO).
+    // Піксель потрапляє в чергу один раз - з міткою сусіда, від якого до нього першим дійшло затоплення,
+    // тому кошики - однозв'язні списки в типізованих масивах: head/tail на рівень, next на піксель
+    const head = new Int32Array(top + 1).fill(-1);
+    const tail = new Int32Array(top + 1).fill(-1);
+    const next = new Int32Array(binary.length).fill(-1);
+    const source = new Int32Array(binary.length).fill(-1);
+
+    const pushNeighbors = (idx: number, label: number, current: number) => {
+        const x = idx % width;
+        const y = Math.floor(idx / width);
+        for (const [dx, dy] of MOORE_DIRECTIONS) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            const nIdx = ny * width + nx;
+            if (binary[nIdx] !== 255 || labels[nIdx] !== -1 || source[nIdx] !== -1) continue;
+
+            source[nIdx] = label;
+            const level = Math.min(current, Math.round(distance[nIdx] * LEVELS_PER_PIXEL));
+            if (tail[level] === -1) head[level] = nIdx;
+            else next[tail[level]] = nIdx;
+            tail[level] = nIdx;
+        }
+    };
+
+    foreground.forEach(idx => {
+        if (labels[idx] !== -1) pushNeighbors(idx, labels[idx], top);
+    });
+
+    // Кошик може поповнюватись під час обходу: новий піксель дописується в кінець списку
+    for (let level = top; level >= 0; level--) {
+        for (let idx = head[level]; idx !== -1; idx = next[idx]) {
+            labels[idx] = source[idx];
+            pushNeighbors(idx, labels[idx], level);
+        }
+    }
+
+    // Розрізи: видаляємо піксель, якщо поруч є піксель басейну з меншим номером
+    const mask = new Uint8ClampedArray(binary);
+    const splitBasins = new Set<number>();
+
+    foreground.forEach(idx => {
+        const x = idx % width;
+        const y = Math.floor(idx / width);
+        for (const [dx, dy] of MOORE_DIRECTIONS) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            const neighbor = labels[ny * width + nx];
+            if (neighbor !== -1 && neighbor < labels[idx]) {
+                mask[idx] = 0;
+                splitBasins.add(neighbor);
+                splitBasins.add(labels[idx]);
+                break;
+            }
+        }
+    });
+
+    const split = new Uint8Array(binary.length);
+    foreground.forEach(idx => {
+        if (mask[idx] === 255 && splitBasins.has(labels[idx])) split[idx] = 1;
+    });
+
+    return { mask, split };
+};
@@ -0,0 +1,100 @@
+/**
+ * Запис ZIP-архіву у браузері без сторонніх бібліотек
+ * Файли зберігаються без стиснення (метод "stored"): PNG вже стиснуті,
+ * тож deflate майже нічого не дав би
+ */
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+// Таблиця CRC-32 (поліном 0xEDB88320), обчислюється один раз при першому використанні
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Час та дата у форматі MS-DOS, який використовують заголовки ZIP
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Створює ZIP-архів з переданих файлів
+ * Структура: для кожного файлу локальний заголовок і дані, потім центральний
+ * каталог і запис його кінця. Імена файлів позначаються як UTF-8 (біт 11)
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const chunks: Uint8Array[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true);
+        local.setUint16(8, 0, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, entry.data.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, entry.data.length, true);
+        central.setUint32(24, entry.data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+
+        chunks.push(new Uint8Array(local.buffer), name, entry.data);
+        directory.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + entry.data.length;
+    });
+
+    const directorySize = directory.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...directory, new Uint8Array(end.buffer)], { type: "application/zip" });
+};
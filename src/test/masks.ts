@@ -0,0 +1,67 @@
+/**
+ * Бінарні маски простих фігур для модульних тестів
+ * Піксель належить фігурі, якщо в ній лежить його центр
+ */
+
+import { Point } from "@/lib/geometry";
+
+/**
+ * Маска width×height: 255 там, де inside(x, y) для центру пікселя, інакше 0
+ */
+export const rasterize = (
+    width: number,
+    height: number,
+    inside: (x: number, y: number) => boolean
+): Uint8ClampedArray => {
+    const data = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (inside(x + 0.5, y + 0.5)) data[y * width + x] = 255;
+        }
+    }
+    return data;
+};
+
+/**
+ * Квадрат зі стороною side, повернутий на angle градусів навколо center,
+ * з кутами, заокругленими радіусом radius (0 - гострі кути)
+ */
+export const squareMask = (
+    width: number,
+    height: number,
+    center: Point,
+    side: number,
+    angle: number,
+    radius = 0
+): Uint8ClampedArray => {
+    const cos = Math.cos(angle * Math.PI / 180);
+    const sin = Math.sin(angle * Math.PI / 180);
+    const half = side / 2;
+
+    return rasterize(width, height, (x, y) => {
+        const u = Math.abs((x - center.x) * cos + (y - center.y) * sin);
+        const v = Math.abs(-(x - center.x) * sin + (y - center.y) * cos);
+        if (u > half || v > half) return false;
+
+        const du = u - (half - radius);
+        const dv = v - (half - radius);
+        return du <= 0 || dv <= 0 || du * du + dv * dv <= radius * radius;
+    });
+};
+
+/**
+ * Опуклий многокутник із заданими вершинами
+ */
+export const polygonMask = (width: number, height: number, vertices: Point[]): Uint8ClampedArray =>
+    rasterize(width, height, (x, y) => {
+        let sign = 0;
+        for (let i = 0; i < vertices.length; i++) {
+            const a = vertices[i];
+            const b = vertices[(i + 1) % vertices.length];
+            const cross = Math.sign((b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x));
+            if (cross === 0) continue;
+            if (sign === 0) sign = cross;
+            else if (cross !== sign) return false;
+        }
+        return true;
+    });